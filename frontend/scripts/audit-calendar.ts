@@ -0,0 +1,154 @@
+// Generates the daily puzzle for a range of dates exactly as the game does and reports how each
+// day came out. Fails if any day has no solution, so a bad stretch shows up weeks ahead.
+//
+//   npm run audit:calendar -- [startDate] [days] [--json out.json]
+import { writeFileSync } from 'node:fs'
+import { inventoryOf, isSolved, makeDailySeed, reachesPar, solveWithInventory } from '../src/engine'
+import type { DifficultyLabel, GeneratedPuzzle, PuzzleObjective } from '../src/engine'
+import { compactPuzzle } from '../src/puzzleFormat'
+import { activeVariants } from '../src/rules'
+import type { RuleVariant } from '../src/rules'
+import { dailyTarget, generateDaily, generatorForSeed } from '../src/generators'
+
+/**
+ * `target`: rated in the scheduled band. `fallback`: no attempt hit the band, so the generator
+ * settled for the closest solvable one. `unsolved`: it fell back to a board with no solution.
+ * `unrated`: solvable, from a version that doesn't rate its boards (launch days).
+ */
+type Outcome = 'target' | 'fallback' | 'unsolved' | 'unrated'
+
+type AuditedDay = {
+  seed: string
+  generatorVersion: number
+  objective: PuzzleObjective
+  rules: RuleVariant[]
+  targetDifficulty: DifficultyLabel
+  outcome: Outcome
+  /** Generator attempts used, out of the day's `maxAttempts` or else the version's. */
+  attempts: number
+  generateMs: number
+  /** How long the solver takes on the finished puzzle, locked pieces included. */
+  solveMs: number
+  difficulty: DifficultyLabel | null
+  difficultyScore: number | null
+  solutions: number | null
+  validSquares: number
+  par: number | null
+  problems: string[]
+  /** The puzzle in the text format, as `?puzzle=` links and the Import panel take it. */
+  puzzle: string
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function outcomeOf(puzzle: GeneratedPuzzle, target: DifficultyLabel): Outcome {
+  if (!puzzle.solution) return 'unsolved'
+  if (!puzzle.rating) return 'unrated'
+  return puzzle.rating?.label === target ? 'target' : 'fallback'
+}
+
+function audit(seed: string): AuditedDay {
+  const target = dailyTarget(seed)
+  let attempts = 0
+  const started = performance.now()
+  const puzzle = generateDaily(seed, (attempt) => {
+    attempts = attempt + 1
+  })
+  const generateMs = performance.now() - started
+  const { board, inventory, locked, solution, rating, objective, par, rules } = puzzle
+
+  const problems: string[] = []
+  const outcome = outcomeOf(puzzle, target.difficulty)
+  if (outcome === 'unsolved') problems.push(`no solvable board in ${attempts} attempts`)
+  if (solution) {
+    const valid = par
+      ? reachesPar(board, inventory, solution, par.score, rules)
+      : isSolved(board, inventory, solution, rules)
+    if (!valid) problems.push('the stored solution does not solve the puzzle')
+    if (!locked.every((l) => solution.some((p) => p.row === l.row && p.col === l.col && p.type === l.type))) {
+      problems.push('a locked piece is not part of the solution')
+    }
+  }
+
+  // Max-score days are solved on the pieces their par uses, as the rating is.
+  const solveInventory = par && solution ? inventoryOf(solution) : inventory
+  const solveStarted = performance.now()
+  const solved = outcome === 'unsolved' ? null : solveWithInventory(board, solveInventory, locked, {}, rules)
+  const solveMs = performance.now() - solveStarted
+  if (outcome !== 'unsolved' && !solved) problems.push('the solver finds no solution with the locked pieces')
+
+  return {
+    seed,
+    generatorVersion: generatorForSeed(seed).version,
+    objective,
+    rules: activeVariants(rules),
+    targetDifficulty: target.difficulty,
+    outcome,
+    attempts,
+    generateMs: Math.round(generateMs),
+    solveMs: Math.round(solveMs),
+    difficulty: rating?.label ?? null,
+    difficultyScore: rating?.score ?? null,
+    solutions: rating?.solutions ?? null,
+    validSquares: board.cells.flat().filter((cell) => cell === 'valid').length,
+    par: par?.score ?? null,
+    problems,
+    puzzle: compactPuzzle({
+      board,
+      inventory,
+      locked,
+      placements: [],
+      variant: target.layout?.shape ?? 'rectangle',
+      objective,
+      par: par?.score ?? null,
+      rules,
+    }),
+  }
+}
+
+const args = process.argv.slice(2)
+const jsonIndex = args.indexOf('--json')
+const jsonPath = jsonIndex >= 0 ? args[jsonIndex + 1] : null
+if (jsonIndex >= 0 && !jsonPath) {
+  console.error('--json needs a file path')
+  process.exit(2)
+}
+const [startArg, daysArg] = args.filter((_, i) => jsonIndex < 0 || (i !== jsonIndex && i !== jsonIndex + 1))
+const start = startArg ? new Date(`${startArg}T00:00:00Z`) : new Date()
+const days = daysArg ? Number(daysArg) : 28
+if (Number.isNaN(start.getTime()) || !Number.isInteger(days) || days < 1) {
+  console.error('Usage: audit-calendar [YYYY-MM-DD] [days] [--json out.json]')
+  process.exit(2)
+}
+
+const calendar: AuditedDay[] = []
+for (let d = 0; d < days; d++) {
+  const date = new Date(start.getTime() + d * 86_400_000)
+  const day = audit(makeDailySeed(date))
+  calendar.push(day)
+  const rated = day.difficulty ? `${day.difficulty} (${day.difficultyScore})` : 'unrated'
+  const par = day.par === null ? '' : ` par ${day.par}`
+  const rules = day.rules.length ? ` rules ${day.rules.join(',')}` : ''
+  const flag = day.problems.length ? '  FAIL' : day.outcome === 'target' ? '' : `  ${day.outcome}`
+  console.log(
+    `${day.seed} ${WEEKDAYS[date.getUTCDay()]}  ${day.targetDifficulty.padEnd(6)} -> ${rated.padEnd(12)}` +
+      ` ${String(day.attempts).padStart(2)} attempts  ${String(day.validSquares).padStart(3)} squares` +
+      `  gen ${day.generateMs} ms  solve ${day.solveMs} ms${par}${rules}${flag}`,
+  )
+  day.problems.forEach((problem) => console.log(`           ${problem}`))
+}
+
+const failing = calendar.filter((day) => day.problems.length > 0)
+const offTarget = calendar.filter((day) => day.outcome === 'fallback')
+const slowest = calendar.reduce((a, b) => (b.generateMs > a.generateMs ? b : a))
+console.log(
+  `\n${days} days from ${calendar[0].seed}: ${failing.length} failing, ${offTarget.length} off target,` +
+    ` slowest ${slowest.seed} at ${slowest.generateMs} ms`,
+)
+
+if (jsonPath) {
+  writeFileSync(jsonPath, `${JSON.stringify({ generatedAt: new Date().toISOString(), calendar }, null, 2)}\n`)
+  console.log(`Wrote ${jsonPath}`)
+}
+
+if (failing.length) process.exit(1)
@@ -0,0 +1,77 @@
+// Benchmarks solveWithInventory against the original backtracking solver over a year of
+// daily seeds, and fails if the two ever disagree on whether a board is solvable.
+//
+//   npm run bench:solver -- [startDate] [days]
+import {
+  DEFAULT_BLOCK_RATIO_VALUE,
+  DEFAULT_LAYOUT,
+  generateBoard,
+  isLegalPlacement,
+  isSolved,
+  makeDailySeed,
+  solveWithInventory,
+} from '../src/engine'
+import type { Inventory } from '../src/engine'
+import { referenceSolve } from './reference-solver'
+
+const ATTEMPTS_PER_DAY = 80
+// The pre-schedule daily set; the reference solver is too slow for the heavier inventories.
+const INVENTORY: Inventory = { queen: 1, rook: 3, bishop: 2, knight: 2, pawn: 4, king: 1 }
+
+function time<T>(fn: () => T): [T, number] {
+  const start = performance.now()
+  const value = fn()
+  return [value, performance.now() - start]
+}
+
+const [startArg, daysArg] = process.argv.slice(2)
+const start = startArg ? new Date(`${startArg}T00:00:00Z`) : new Date(Date.UTC(2026, 0, 1))
+const days = daysArg ? Number(daysArg) : 365
+
+let referenceMs = 0
+let bitboardMs = 0
+let boards = 0
+let unsolvable = 0
+const slowest = { reference: { seed: '', ms: 0 }, bitboard: { seed: '', ms: 0 } }
+const mismatches: string[] = []
+
+for (let d = 0; d < days; d++) {
+  const seed = makeDailySeed(new Date(start.getTime() + d * 86_400_000))
+  const inventory = INVENTORY
+  // Stop at the first solvable attempt, as the original generator did.
+  for (let attempt = 0; attempt < ATTEMPTS_PER_DAY; attempt++) {
+    const attemptSeed = attempt === 0 ? seed : `${seed}-${attempt}`
+    const board = generateBoard(attemptSeed, DEFAULT_LAYOUT, DEFAULT_BLOCK_RATIO_VALUE)
+    const [expected, refMs] = time(() => referenceSolve(board, inventory))
+    const [actual, newMs] = time(() => solveWithInventory(board, inventory))
+    referenceMs += refMs
+    bitboardMs += newMs
+    boards++
+    if (!expected) unsolvable++
+    if (refMs > slowest.reference.ms) slowest.reference = { seed: board.seed, ms: refMs }
+    if (newMs > slowest.bitboard.ms) slowest.bitboard = { seed: board.seed, ms: newMs }
+    if (!!expected !== !!actual) mismatches.push(`${board.seed}: reference ${!!expected}, bitboard ${!!actual}`)
+    if (actual && (!isLegalPlacement(board, actual) || !isSolved(board, inventory, actual))) {
+      mismatches.push(`${board.seed}: bitboard returned an invalid solution`)
+    }
+    if (expected) break
+  }
+}
+
+const fmt = (ms: number) => `${ms.toFixed(1)} ms`
+console.log(`Seeds:     ${days} days from ${makeDailySeed(start)}, ${boards} boards (${unsolvable} unsolvable)`)
+for (const [label, total, worst] of [
+  ['Reference', referenceMs, slowest.reference],
+  ['Bitboard ', bitboardMs, slowest.bitboard],
+] as const) {
+  console.log(
+    `${label}: ${fmt(total)} total, ${fmt(total / boards)} per board, slowest ${worst.seed} at ${fmt(worst.ms)}`,
+  )
+}
+console.log(`Speed-up:  ${(referenceMs / bitboardMs).toFixed(1)}x`)
+
+if (mismatches.length) {
+  console.error(`\n${mismatches.length} mismatch(es):`)
+  mismatches.forEach((m) => console.error(`  ${m}`))
+  process.exit(1)
+}
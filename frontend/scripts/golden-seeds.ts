@@ -0,0 +1,108 @@
+// Regenerates every recorded golden seed and fails if any puzzle differs from what was recorded,
+// or if the day now maps to another generator version. Past dailies must never change.
+//
+//   npm run golden:check                      verify scripts/golden-seeds.json
+//   npm run golden:check -- --record [seeds]  add seeds (default: a sample since launch) not yet recorded
+//
+// Recorded days, future ones included, are pinned to their version for good: records are never
+// dropped or rewritten, so a new version has to start after the last recorded day.
+import { createHash } from 'node:crypto'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { dayNumberToSeed, LAUNCH_DATE, seedToDayNumber } from '../src/archive'
+import { dailyTarget, generateDaily, generatorForSeed } from '../src/generators'
+import { compactPuzzle } from '../src/puzzleFormat'
+
+type GoldenSeed = {
+  seed: string
+  version: number
+  /** Board, inventory, locked pieces, par and rules in the text format, to show what changed. */
+  puzzle: string
+  /** SHA-256 of the whole generated puzzle, so solutions, ratings and block ratios count too. */
+  fingerprint: string
+}
+
+const FILE = new URL('./golden-seeds.json', import.meta.url).pathname
+// 13 days apart walks through every weekday, so each scheduled target gets covered.
+const SAMPLE_STEP_DAYS = 13
+const SAMPLE_COUNT = 28
+
+function record(seed: string): GoldenSeed {
+  const puzzle = generateDaily(seed)
+  const { board, solution, inventory, blockRatio, locked, objective, par, rating, rules } = puzzle
+  const text = compactPuzzle({
+    board,
+    inventory,
+    locked,
+    placements: [],
+    variant: dailyTarget(seed).layout?.shape ?? 'rectangle',
+    objective,
+    par: par?.score ?? null,
+    rules,
+  })
+  // Fields listed explicitly, so adding one to GeneratedPuzzle doesn't invalidate every record.
+  const generated = { board, solution, inventory, blockRatio, locked, objective, par, rating }
+  return {
+    seed,
+    version: generatorForSeed(seed).version,
+    puzzle: text,
+    fingerprint: createHash('sha256').update(JSON.stringify(generated)).digest('hex'),
+  }
+}
+
+function sampleSeeds(): string[] {
+  const first = seedToDayNumber(LAUNCH_DATE.replace(/-/g, '')) ?? 0
+  return Array.from({ length: SAMPLE_COUNT }, (_, i) => dayNumberToSeed(first + i * SAMPLE_STEP_DAYS))
+}
+
+function load(): GoldenSeed[] {
+  try {
+    return JSON.parse(readFileSync(FILE, 'utf8')) as GoldenSeed[]
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+}
+
+const args = process.argv.slice(2)
+const golden = load()
+
+if (args[0] === '--record') {
+  const requested = args.length > 1 ? args.slice(1) : sampleSeeds()
+  const invalid = requested.filter((seed) => seedToDayNumber(seed) === null)
+  if (invalid.length) {
+    console.error(`Not daily seeds: ${invalid.join(', ')}`)
+    process.exit(2)
+  }
+  const known = new Set(golden.map((entry) => entry.seed))
+  const added = requested.filter((seed) => !known.has(seed)).map(record)
+  const all = [...golden, ...added].sort((a, b) => a.seed.localeCompare(b.seed))
+  writeFileSync(FILE, `${JSON.stringify(all, null, 2)}\n`)
+  console.log(`Recorded ${added.length} new seed(s); ${all.length} in total`)
+  process.exit(0)
+}
+
+if (golden.length === 0) {
+  console.error('No golden seeds recorded; run with --record first')
+  process.exit(2)
+}
+
+const failures: string[] = []
+for (const expected of golden) {
+  const actual = record(expected.seed)
+  if (actual.version !== expected.version) {
+    failures.push(`${expected.seed}: now generated by v${actual.version}, recorded with v${expected.version}`)
+  } else if (actual.puzzle !== expected.puzzle) {
+    failures.push(
+      `${expected.seed}: board, inventory or locked pieces changed\n` +
+        `    was ${expected.puzzle}\n    now ${actual.puzzle}`,
+    )
+  } else if (actual.fingerprint !== expected.fingerprint) {
+    failures.push(`${expected.seed}: same board, but the solution, rating or block ratio changed`)
+  }
+}
+
+console.log(`${golden.length - failures.length} of ${golden.length} golden seeds reproduce exactly`)
+if (failures.length) {
+  failures.forEach((failure) => console.error(`  ${failure}`))
+  process.exit(1)
+}
@@ -0,0 +1,38 @@
+// The solver as it was before bitboards, kept to check the real one against.
+import { piecesAttack } from '../src/engine'
+import type { Board, Inventory, PiecePlacement, PieceType } from '../src/engine'
+
+/** One flat list of pieces, trying every cell for every copy. */
+export function referenceSolve(board: Board, inventory: Inventory): PiecePlacement[] | null {
+  const priority: PieceType[] = ['queen', 'rook', 'bishop', 'knight', 'pawn', 'king']
+  const pieces = priority.flatMap((type) => Array.from({ length: inventory[type] ?? 0 }, () => type))
+  const placements: PiecePlacement[] = []
+  const occupied = new Set<string>()
+  const cells: { row: number; col: number }[] = []
+  for (let r = 0; r < board.height; r++) {
+    for (let c = 0; c < board.width; c++) {
+      if (board.cells[r][c] === 'valid') cells.push({ row: r, col: c })
+    }
+  }
+  const backtrack = (idx: number): boolean => {
+    if (idx === pieces.length) return true
+    for (const cell of cells) {
+      const key = `${cell.row},${cell.col}`
+      if (occupied.has(key)) continue
+      const candidate: PiecePlacement = { ...cell, type: pieces[idx] }
+      const safe = placements.every(
+        (placed) =>
+          !piecesAttack(board, candidate, placed, occupied) &&
+          !piecesAttack(board, placed, candidate, occupied),
+      )
+      if (!safe) continue
+      placements.push(candidate)
+      occupied.add(key)
+      if (backtrack(idx + 1)) return true
+      placements.pop()
+      occupied.delete(key)
+    }
+    return false
+  }
+  return backtrack(0) ? placements : null
+}
@@ -0,0 +1,53 @@
+// Checks solveWithInventory against the reference solver on a fixed set of boards, and fails if
+// the two disagree on whether one is solvable or the solver returns an invalid solution.
+//
+//   npm run solver:check
+import { generateBoard, isLegalPlacement, isSolved, solveWithInventory } from '../src/engine'
+import type { BoardLayout, Inventory } from '../src/engine'
+import { referenceSolve } from './reference-solver'
+
+type Sample = { label: string; layout: BoardLayout; blockRatio: number; inventory: Inventory; boards: number }
+
+// Daily-sized boards are all solvable, and the reference solver takes minutes to prove one isn't,
+// so the small boards are there to cover the unsolvable case too.
+const SAMPLES: Sample[] = [
+  {
+    label: '8x8, launch set',
+    layout: { width: 8, height: 8, shape: 'rectangle' },
+    blockRatio: 0.28,
+    inventory: { queen: 1, rook: 3, bishop: 2, knight: 2, pawn: 4, king: 1 },
+    boards: 28,
+  },
+  {
+    label: '5x5, nine pieces',
+    layout: { width: 5, height: 5, shape: 'rectangle' },
+    blockRatio: 0.24,
+    inventory: { queen: 1, rook: 2, bishop: 2, knight: 1, pawn: 2, king: 1 },
+    boards: 30,
+  },
+]
+
+const mismatches: string[] = []
+
+for (const sample of SAMPLES) {
+  let unsolvable = 0
+  for (let i = 0; i < sample.boards; i++) {
+    const board = generateBoard(`solver-check-${i}`, sample.layout, sample.blockRatio)
+    const expected = referenceSolve(board, sample.inventory)
+    const actual = solveWithInventory(board, sample.inventory)
+    if (!expected) unsolvable++
+    const where = `${sample.label}, ${board.seed}`
+    if (!!expected !== !!actual) mismatches.push(`${where}: reference ${!!expected}, solver ${!!actual}`)
+    if (actual && (!isLegalPlacement(board, actual) || !isSolved(board, sample.inventory, actual))) {
+      mismatches.push(`${where}: solver returned an invalid solution`)
+    }
+  }
+  console.log(`${sample.label}: ${sample.boards} boards (${unsolvable} unsolvable)`)
+}
+
+if (mismatches.length) {
+  console.error(`\n${mismatches.length} mismatch(es):`)
+  mismatches.forEach((m) => console.error(`  ${m}`))
+  process.exit(1)
+}
+console.log('Solver agrees with the reference on every board.')
@@ -0,0 +1,113 @@
+// Local leaderboard server. Re-generates each submitted seed's puzzle with the same engine code
+// the game uses, so only placements that really solve it get ranked.
+//
+//   npm run server            (PORT defaults to 8787, LEADERBOARD_FILE to server/data/leaderboard.json)
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { fileURLToPath } from 'node:url'
+import { makeDailySeed } from '../src/engine'
+import type { GeneratedPuzzle } from '../src/engine'
+import { entryFor, isRankedSeed, parseSubmission, verifySubmission } from '../src/leaderboardProtocol'
+import type { Leaderboard } from '../src/leaderboardProtocol'
+import { dailyTarget, generateDaily } from '../src/generators'
+import { LeaderboardStore } from './store'
+
+const PORT = Number(process.env.PORT ?? 8787)
+const MAX_BODY_BYTES = 64 * 1024
+// Generating a board takes up to a few seconds; submissions cluster on a handful of seeds.
+const MAX_CACHED_PUZZLES = 32
+
+const store = new LeaderboardStore(
+  process.env.LEADERBOARD_FILE ?? fileURLToPath(new URL('./data/leaderboard.json', import.meta.url)),
+)
+const puzzles = new Map<string, GeneratedPuzzle>()
+
+function puzzleFor(seed: string): GeneratedPuzzle {
+  const cached = puzzles.get(seed)
+  if (cached) return cached
+  const puzzle = generateDaily(seed)
+  if (puzzles.size >= MAX_CACHED_PUZZLES) puzzles.delete(puzzles.keys().next().value as string)
+  puzzles.set(seed, puzzle)
+  return puzzle
+}
+
+function leaderboardFor(seed: string): Leaderboard {
+  return { seed, objective: dailyTarget(seed).objective ?? 'complete', entries: store.list(seed) }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+  res.end(JSON.stringify(body))
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let size = 0
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new RangeError('Request body is too large')
+    chunks.push(chunk as Buffer)
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+
+  if (req.method === 'GET' && url.pathname === '/api/daily') {
+    send(res, 200, { seed: makeDailySeed() })
+    return
+  }
+
+  const match = /^\/api\/leaderboard\/(\d{8})$/.exec(url.pathname)
+  if (req.method === 'GET' && match) {
+    const seed = match[1]
+    if (!isRankedSeed(seed)) {
+      send(res, 404, { error: 'No leaderboard for that day' })
+      return
+    }
+    send(res, 200, leaderboardFor(seed))
+    return
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/results') {
+    let body: unknown
+    try {
+      body = await readJson(req)
+    } catch {
+      send(res, 400, { error: 'Expected a JSON body' })
+      return
+    }
+    const submission = parseSubmission(body)
+    if (!submission) {
+      send(res, 400, { error: 'Malformed submission' })
+      return
+    }
+    if (!isRankedSeed(submission.seed)) {
+      send(res, 422, { error: 'That day is not open for ranking' })
+      return
+    }
+    const puzzle = puzzleFor(submission.seed)
+    const problem = verifySubmission(puzzle, submission)
+    if (problem) {
+      send(res, 422, { error: problem })
+      return
+    }
+    const rank = await store.add(submission.seed, entryFor(puzzle, submission, Date.now()))
+    send(res, 201, { rank, leaderboard: leaderboardFor(submission.seed) })
+    return
+  }
+
+  send(res, 404, { error: 'Not found' })
+}
+
+await store.load()
+createServer((req, res) => {
+  handle(req, res).catch((err: unknown) => {
+    console.error(err)
+    if (!res.headersSent) send(res, 500, { error: 'Internal error' })
+    else res.end()
+  })
+}).listen(PORT, () => {
+  console.log(`Leaderboard server listening on http://localhost:${PORT}`)
+})
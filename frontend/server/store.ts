@@ -0,0 +1,52 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { compareEntries } from '../src/leaderboardProtocol'
+import type { LeaderboardEntry } from '../src/leaderboardProtocol'
+
+type StoredEntries = Record<string, LeaderboardEntry[]>
+
+/** Entries per seed, kept sorted best first and written through to one JSON file. */
+export class LeaderboardStore {
+  private readonly path: string
+  private entries: StoredEntries = {}
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(path: string) {
+    this.path = path
+  }
+
+  async load(): Promise<void> {
+    try {
+      this.entries = JSON.parse(await readFile(this.path, 'utf8')) as StoredEntries
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+      this.entries = {}
+    }
+  }
+
+  list(seed: string): LeaderboardEntry[] {
+    return this.entries[seed] ?? []
+  }
+
+  /** Keeps each name's best entry only. Returns the rank `entry` holds, or the name's better standing one. */
+  async add(seed: string, entry: LeaderboardEntry): Promise<number> {
+    const existing = this.list(seed)
+    const previous = existing.find((e) => e.name === entry.name)
+    const kept = previous && compareEntries(previous, entry) <= 0 ? previous : entry
+    const next = [...existing.filter((e) => e.name !== entry.name), kept].sort(compareEntries)
+    this.entries = { ...this.entries, [seed]: next }
+    await this.save()
+    return next.indexOf(kept) + 1
+  }
+
+  // Writes are chained so two quick submissions can't interleave; the rename keeps the file whole on a crash.
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.entries)
+    this.writing = this.writing.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true })
+      await writeFile(`${this.path}.tmp`, snapshot)
+      await rename(`${this.path}.tmp`, this.path)
+    })
+    return this.writing
+  }
+}
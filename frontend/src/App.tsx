@@ -1,35 +1,171 @@
-import type { CSSProperties } from 'react'
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
 import type { PositionDataType } from 'react-chessboard'
 import './App.css'
+import { customRoute, listArchiveSeeds, parseRoute, routeSearch } from './archive'
+import type { PuzzleRoute } from './archive'
+import { boardDimensions, boardSquareStyles, piecePositions, withOverlay } from './boardStyles'
+import type { BoardOverlay } from './boardStyles'
+import { ArchiveCalendar } from './components/ArchiveCalendar'
 import { BoardSection } from './components/BoardSection'
+import { BoardProvider } from './components/BoardView'
+import type { BoardKeyboard, PieceDrop } from './components/BoardView'
+import { ExportPanel } from './components/ExportPanel'
+import { ImportPanel } from './components/ImportPanel'
+import { PuzzleEditor } from './components/PuzzleEditor'
 import { InventoryBar } from './components/InventoryBar'
+import { LeaderboardPanel } from './components/LeaderboardPanel'
+import { ReplayViewer } from './components/ReplayViewer'
+import { ScoreDisplay } from './components/ScoreDisplay'
+import { SettingsPanel } from './components/SettingsPanel'
+import { SharePanel } from './components/SharePanel'
+import { StatsModal } from './components/StatsModal'
 import { TimerDisplay } from './components/TimerDisplay'
 import {
-  DEFAULT_BLOCK_RATIO_VALUE,
+  attackCounts,
+  attackedSquares,
   evaluateConflicts,
-  findSolvableBoard,
-  inventoryForSeed,
+  isSolved,
+  isValidSquare,
   makeDailySeed,
-  solveWithInventory,
+  NO_CONFLICTS,
+  reachesPar,
+  safeSquares,
+  scoreOf,
 } from './engine'
-import type { Board, Inventory, PiecePlacement, PieceType } from './engine'
-import { pieceToFen } from './pieces'
+import type {
+  Board,
+  BoardShape,
+  DifficultyRating,
+  GeneratedPuzzle,
+  HintAnalysis,
+  Inventory,
+  PiecePlacement,
+  PieceType,
+  ScorePar,
+} from './engine'
+import { describeChange, describeSquare, squareLabels } from './boardText'
+import { conflictArrows, describeConflict } from './conflicts'
+import { blankDocument } from './editor'
+import { EngineError, requestHintAnalysis, requestPuzzle } from './engineClient'
+import type { EngineTask } from './engineClient'
+import type { ProgressHandler } from './engineProtocol'
+import { formatCountdown, formatSeedDate, formatTime } from './format'
+import { dailyTarget } from './generators'
+import {
+  HINT_BUDGET_MS,
+  HINT_PENALTY_MS,
+  HINTS_PER_DAY,
+  MAX_HINT_TIER,
+  describeHint,
+  isFreeHint,
+} from './hints'
+import { applyCommand, EMPTY_HISTORY, recordCommand, redo, undo } from './history'
+import type { Command, UndoHistory } from './history'
+import { listAttemptSeeds, loadAttempt, pruneStaleAttempts, saveAttempt } from './persistence'
+import { pieceForCode, pieceLabel } from './pieces'
+import { compactPuzzle, parsePuzzle, puzzleFromDocument, PuzzleFormatError } from './puzzleFormat'
+import type { PuzzleDocument } from './puzzleFormat'
+import { commandStep } from './replay'
+import type { ReplayStep } from './replay'
+import { activeVariants, RULE_VARIANTS, STANDARD_RULES } from './rules'
+import type { AttackRules } from './rules'
+import { loadSettings, saveSettings } from './settings'
+import type { ShareResult } from './share'
+import { parseSquare, squareName } from './squares'
+import type { Coord } from './squares'
+import { loadResults, recordResult, summarizeStats } from './stats'
+
+type LoadedPuzzle = {
+  puzzle: GeneratedPuzzle
+  /** Pieces to start from when there's no saved attempt; imported positions can have some. */
+  start: PiecePlacement[]
+  variant: BoardShape | null
+}
+
+const CURSOR_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+}
+
+function loadDaily(seed: string, onProgress: ProgressHandler): EngineTask<LoadedPuzzle> {
+  const task = requestPuzzle(seed, onProgress)
+  const variant = dailyTarget(seed).layout?.shape ?? 'rectangle'
+  return { promise: task.promise.then((puzzle) => ({ puzzle, start: [], variant })), cancel: task.cancel }
+}
+
+// Imported puzzles skip the engine but settle like a task, so a bad file fails the same way a board does.
+function loadCustom(text: string): EngineTask<LoadedPuzzle> {
+  let cancel = () => {}
+  const promise = new Promise<LoadedPuzzle>((resolve, reject) => {
+    const id = window.setTimeout(() => {
+      try {
+        const doc = parsePuzzle(text)
+        resolve({ puzzle: puzzleFromDocument(doc), start: doc.placements, variant: doc.variant })
+      } catch (err) {
+        reject(err)
+      }
+    }, 0)
+    cancel = () => {
+      window.clearTimeout(id)
+      reject(new EngineError('cancelled', 'Import was cancelled'))
+    }
+  })
+  return { promise, cancel }
+}
 
 function App() {
-  const initialSeed = makeDailySeed()
+  const todaySeed = makeDailySeed()
+  const [route, setRoute] = useState<PuzzleRoute>(() => parseRoute(window.location.search))
+  // The puzzle whose state is currently loaded; lags `route` until the new board is ready.
+  const [active, setActive] = useState<PuzzleRoute>(route)
   const [inventory, setInventory] = useState<Inventory | null>(null)
   const [board, setBoard] = useState<Board | null>(null)
+  const [rating, setRating] = useState<DifficultyRating | null>(null)
   const [placements, setPlacements] = useState<PiecePlacement[]>([])
+  const [locked, setLocked] = useState<PiecePlacement[]>([])
+  // Set on max-score days, where any subset of the inventory may be placed.
+  const [par, setPar] = useState<ScorePar | null>(null)
+  const [variant, setVariant] = useState<BoardShape | null>(null)
+  const [rules, setRules] = useState<AttackRules>(STANDARD_RULES)
   const [selected, setSelected] = useState<PieceType>('queen')
   const [startTime, setStartTime] = useState<number | null>(null)
   const [endTime, setEndTime] = useState<number | null>(null)
   const [now, setNow] = useState<number>(() => Date.now())
-  const [showModal, setShowModal] = useState(false)
   const [modalDismissed, setModalDismissed] = useState(false)
-  const [showHint, setShowHint] = useState(false)
+  const [hint, setHint] = useState<{ tier: number; analysis: HintAnalysis } | null>(null)
+  const [hintPending, setHintPending] = useState(false)
+  const [hintNotice, setHintNotice] = useState<string | null>(null)
+  const hintTask = useRef<EngineTask<HintAnalysis> | null>(null)
+  const [loadProgress, setLoadProgress] = useState<{ seed: string; done: number; total: number } | null>(
+    null,
+  )
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [showHowTo, setShowHowTo] = useState(false)
-  const [loading, setLoading] = useState(true)
+  const [showStats, setShowStats] = useState(false)
+  const [showArchive, setShowArchive] = useState(false)
+  const [showLeaderboard, setShowLeaderboard] = useState(false)
+  const [showReplay, setShowReplay] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [settings, setSettings] = useState(loadSettings)
+  // Square name under the pointer, for the attack preview.
+  const [hovered, setHovered] = useState<string | null>(null)
+  // Keyboard play: the square Enter acts on, shown while the board has keyboard focus.
+  const [cursor, setCursor] = useState<Coord | null>(null)
+  const [cursorShown, setCursorShown] = useState(false)
+  // Read out by the live region under the board.
+  const [announcement, setAnnouncement] = useState('')
+  const [editing, setEditing] = useState<PuzzleDocument | null>(null)
+  const [replay, setReplay] = useState<ReplayStep[]>([])
+  const [replayStart, setReplayStart] = useState<PiecePlacement[]>([])
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY)
+  const [undoCount, setUndoCount] = useState(0)
+  const [redoCount, setRedoCount] = useState(0)
+  const [hintsUsed, setHintsUsed] = useState(0)
+  const [results, setResults] = useState(() => loadResults())
   const [countdownMs, setCountdownMs] = useState<number>(() => {
     const now = Date.now()
     const next = Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), new Date().getUTCDate() + 1, 0, 0, 0)
@@ -37,81 +173,125 @@ function App() {
   })
 
   useEffect(() => {
-    setLoading(true)
-    const inv = inventoryForSeed(initialSeed)
-    const { board: solvableBoard } = findSolvableBoard(
-      initialSeed,
-      inv,
-      80,
-      DEFAULT_BLOCK_RATIO_VALUE,
-    )
-    setInventory(inv)
-    setBoard(solvableBoard)
-    setSelected((Object.keys(inv) as PieceType[])[0])
-    setPlacements([])
-    setStartTime(null)
-    setEndTime(null)
-    setShowHint(false)
-    setModalDismissed(false)
-    setLoading(false)
-  }, [initialSeed])
+    const onPopState = () => setRoute(parseRoute(window.location.search))
+    window.addEventListener('popstate', onPopState)
+    // Normalise rejected dates (future, pre-launch, malformed) back to the plain daily URL.
+    if (window.location.search !== routeSearch(route)) {
+      window.history.replaceState(null, '', routeSearch(route) || window.location.pathname)
+    }
+    return () => window.removeEventListener('popstate', onPopState)
+  }, [route])
+
+  const navigate = useCallback((next: PuzzleRoute) => {
+    window.history.pushState(null, '', routeSearch(next) || window.location.pathname)
+    setRoute(next)
+  }, [])
+
+  const { seed: routeSeed, mode: routeMode, puzzle: routePuzzle } = route
+  const loading = !board || active.seed !== routeSeed || active.mode !== routeMode
+
+  useEffect(() => {
+    const task =
+      routePuzzle === undefined
+        ? loadDaily(routeSeed, (done, total) => setLoadProgress({ seed: routeSeed, done, total }))
+        : loadCustom(routePuzzle)
+    task.promise.then(({ puzzle, start, variant: boardVariant }) => {
+      const { board: solvableBoard, inventory: inv, locked: lockedPieces, rating: boardRating } = puzzle
+      if (routeMode === 'daily') pruneStaleAttempts(routeSeed)
+      const saved = loadAttempt(routeSeed, routeMode)
+      const restored = saved
+        ? saved.placements.filter(
+            (p) =>
+              isValidSquare(solvableBoard, p.row, p.col) &&
+              !lockedPieces.some((l) => l.row === p.row && l.col === p.col),
+          )
+        : start
+      const resumedAt = Date.now()
+      // Time already spent counts even if every placement was taken back or dropped.
+      const resumedStart = saved && saved.elapsedMs > 0 ? resumedAt - saved.elapsedMs : null
+      setInventory(inv)
+      setBoard(solvableBoard)
+      setRating(boardRating)
+      setSelected((Object.keys(inv) as PieceType[])[0])
+      setPlacements(restored)
+      setLocked(lockedPieces)
+      setPar(puzzle.par)
+      setVariant(boardVariant)
+      setRules(puzzle.rules)
+      setStartTime(resumedStart)
+      setEndTime(resumedStart !== null && saved?.solved ? resumedAt : null)
+      setNow(resumedAt)
+      setHint(null)
+      setModalDismissed(saved?.modalDismissed ?? false)
+      // The history indexes into the saved placements, so it's only kept if none were dropped.
+      setHistory(saved && restored.length === saved.placements.length ? saved.history : EMPTY_HISTORY)
+      setUndoCount(saved?.undoCount ?? 0)
+      setRedoCount(saved?.redoCount ?? 0)
+      setHintsUsed(saved?.hintsUsed ?? 0)
+      setReplay(saved?.replay ?? [])
+      setReplayStart(saved ? saved.replayStart : start)
+      setCursor(null)
+      setAnnouncement('')
+      setActive({ seed: routeSeed, mode: routeMode })
+      setLoadProgress(null)
+      setLoadError(null)
+    }, (err: unknown) => {
+      if (err instanceof EngineError && err.reason === 'cancelled') return
+      setLoadError(
+        err instanceof PuzzleFormatError
+          ? `This puzzle can't be played: ${err.message}`
+          : 'Something went wrong while preparing this board. Reload to try again.',
+      )
+    })
+    return task.cancel
+  }, [routeSeed, routeMode, routePuzzle])
+
+  useEffect(() => () => hintTask.current?.cancel(), [])
 
   const inventoryList = useMemo(
     () => (inventory ? (Object.keys(inventory) as PieceType[]) : []),
     [inventory],
   )
-  const totalPieces = useMemo(
-    () =>
-      inventoryList.reduce((sum, key) => sum + (inventory ? inventory[key] ?? 0 : 0), 0),
-    [inventory, inventoryList],
-  )
+
+  // Locked pieces count everywhere except the player's own history: Undo and Clear never touch them.
+  const allPlacements = useMemo(() => [...locked, ...placements], [locked, placements])
 
   const conflicts = useMemo(
-    () => (board ? evaluateConflicts(board, placements) : { positions: new Set(), pairCount: 0 }),
-    [board, placements],
+    () =>
+      board ? evaluateConflicts(board, allPlacements, rules) : NO_CONFLICTS,
+    [board, allPlacements, rules],
   )
   const hasConflicts = conflicts.positions.size > 0
+  const conflictArrowList = useMemo(
+    () => (board ? conflictArrows(board, conflicts.conflicts) : []),
+    [board, conflicts],
+  )
+  const conflictLines = useMemo(
+    () => (board ? conflicts.conflicts.map((conflict) => describeConflict(board, conflict)) : []),
+    [board, conflicts],
+  )
 
   const placedCounts = useMemo(() => {
-    const counts: Record<PieceType, number> = {
-      queen: 0,
-      rook: 0,
-      bishop: 0,
-      knight: 0,
-      pawn: 0,
-      king: 0,
-    }
-    placements.forEach((p) => {
-      counts[p.type] += 1
+    const counts: Partial<Record<PieceType, number>> = {}
+    allPlacements.forEach((p) => {
+      counts[p.type] = (counts[p.type] ?? 0) + 1
     })
     return counts
-  }, [placements])
+  }, [allPlacements])
 
-  const allPlaced =
-    placements.length === totalPieces &&
-    inventoryList.every((t) => placedCounts[t] === (inventory ? inventory[t] ?? 0 : 0))
-  const parHit = allPlaced && !hasConflicts
+  const score = useMemo(() => scoreOf(allPlacements), [allPlacements])
 
-  useEffect(() => {
-    if (placements.length > 0 && startTime === null) {
-      setStartTime(Date.now())
-      setEndTime(null)
-    }
-    setShowHint(false)
-  }, [placements.length, startTime])
+  const reachesGoal = useCallback(
+    (b: Board, inv: Inventory, all: PiecePlacement[]) =>
+      par ? reachesPar(b, inv, all, par.score, rules) : isSolved(b, inv, all, rules),
+    [par, rules],
+  )
 
-  useEffect(() => {
-    if (parHit && startTime && !endTime) {
-      setEndTime(Date.now())
-    }
-    if (parHit && !modalDismissed) {
-      setShowModal(true)
-    }
-    if (!parHit) {
-      setShowModal(false)
-      setModalDismissed(false)
-    }
-  }, [parHit, startTime, endTime, modalDismissed])
+  const parHit = useMemo(
+    () => !!board && !!inventory && !hasConflicts && reachesGoal(board, inventory, allPlacements),
+    [board, inventory, hasConflicts, allPlacements, reachesGoal],
+  )
+  const showModal = parHit && !modalDismissed
 
   useEffect(() => {
     if (!startTime || endTime) return
@@ -119,6 +299,52 @@ function App() {
     return () => window.clearInterval(id)
   }, [startTime, endTime])
 
+  useEffect(() => {
+    if (loading || !board) return
+    const persist = () =>
+      saveAttempt(
+        {
+          seed: active.seed,
+          placements,
+          elapsedMs: startTime ? (endTime ?? Date.now()) - startTime : 0,
+          solved: endTime !== null,
+          modalDismissed,
+          undoCount,
+          redoCount,
+          hintsUsed,
+          replay,
+          replayStart,
+          history,
+        },
+        active.mode,
+      )
+    persist()
+    // Elapsed time keeps moving between actions, so capture it again when the page goes away.
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') persist()
+    }
+    window.addEventListener('pagehide', persist)
+    document.addEventListener('visibilitychange', onHide)
+    return () => {
+      window.removeEventListener('pagehide', persist)
+      document.removeEventListener('visibilitychange', onHide)
+    }
+  }, [
+    loading,
+    board,
+    active,
+    placements,
+    startTime,
+    endTime,
+    modalDismissed,
+    undoCount,
+    redoCount,
+    hintsUsed,
+    replay,
+    replayStart,
+    history,
+  ])
+
   useEffect(() => {
     const updateCountdown = () => {
       const nowTs = Date.now()
@@ -137,40 +363,126 @@ function App() {
     return () => window.clearInterval(id)
   }, [])
 
+  // Replay steps use the attempt clock, which survives reloads along with `startTime`.
+  const attemptClock = useCallback(
+    (ts: number) => (startTime === null ? 0 : Math.round(ts - startTime)),
+    [startTime],
+  )
+
+  // Drops from the inventory select quietly: the placement's own announcement says more.
+  const selectPiece = useCallback(
+    (type: PieceType, announce = true) => {
+      if (type === selected) return
+      setSelected(type)
+      setReplay((prev) => [...prev, [attemptClock(Date.now()), 'select', type]])
+      if (!announce) return
+      const left = (inventory?.[type] ?? 0) - (placedCounts[type] ?? 0)
+      setAnnouncement(`${pieceLabel[type]} selected, ${left} left`)
+    },
+    [selected, attemptClock, inventory, placedCounts],
+  )
+
+  const modalOpen =
+    showHowTo ||
+    showStats ||
+    showArchive ||
+    showLeaderboard ||
+    showReplay ||
+    showExport ||
+    showImport ||
+    showSettings ||
+    editing !== null
+
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      if (showHowTo || loading || inventoryList.length === 0) return
+      // The board handles its own arrow keys.
+      if (modalOpen || e.defaultPrevented) return
+      if (loading || inventoryList.length === 0) return
       const tag = (e.target as HTMLElement | null)?.tagName
       if (tag === 'INPUT' || tag === 'TEXTAREA') return
+      if (/^[1-9]$/.test(e.key) && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        const type = inventoryList[Number(e.key) - 1]
+        if (type) selectPiece(type)
+        return
+      }
       const keys = ['a', 'A', 'ArrowLeft', 'd', 'D', 'ArrowRight']
       if (!keys.includes(e.key)) return
       e.preventDefault()
-      setSelected((prev) => {
-        const idx = inventoryList.indexOf(prev)
-        const delta = e.key === 'a' || e.key === 'A' || e.key === 'ArrowLeft' ? -1 : 1
-        const nextIndex = ((idx >= 0 ? idx : 0) + delta + inventoryList.length) % inventoryList.length
-        return inventoryList[nextIndex]
-      })
+      const idx = inventoryList.indexOf(selected)
+      const delta = e.key === 'a' || e.key === 'A' || e.key === 'ArrowLeft' ? -1 : 1
+      const nextIndex = ((idx >= 0 ? idx : 0) + delta + inventoryList.length) % inventoryList.length
+      selectPiece(inventoryList[nextIndex])
     }
     window.addEventListener('keydown', onKey)
     return () => window.removeEventListener('keydown', onKey)
-  }, [inventoryList, loading, showHowTo])
-
-  const elapsedMs = startTime ? (endTime ?? now) - startTime : 0
-  const formatTime = (ms: number) => {
-    const totalSeconds = Math.max(0, Math.floor(ms / 1000))
-    const minutes = Math.floor(totalSeconds / 60)
-    const seconds = totalSeconds % 60
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`
+  }, [inventoryList, loading, selected, selectPiece, modalOpen])
+
+  const penaltyMs = hintsUsed * HINT_PENALTY_MS
+  const elapsedMs = startTime ? (endTime ?? now) - startTime + penaltyMs : 0
+  const statsSummary = useMemo(() => summarizeStats(results, todaySeed), [results, todaySeed])
+  const archiveSeeds = useMemo(() => (showArchive ? listArchiveSeeds() : []), [showArchive])
+  const solvedSeeds = useMemo(() => new Set(results.map((r) => r.seed)), [results])
+  const startedSeeds = useMemo(
+    () => new Set(showArchive ? listAttemptSeeds('archive') : []),
+    [showArchive],
+  )
+
+  const shareResult: ShareResult | null = useMemo(
+    () =>
+      board && startTime && endTime
+        ? {
+            seed: active.seed,
+            mode: active.mode,
+            board,
+            timeMs: endTime - startTime + penaltyMs,
+            hints: hintsUsed,
+            undos: undoCount,
+            difficulty: rating?.label ?? null,
+            score: par ? { score, par: par.score } : null,
+          }
+        : null,
+    [board, startTime, endTime, active, hintsUsed, undoCount, penaltyMs, rating, par, score],
+  )
+
+  const leaderboardSubmission = useMemo(
+    () =>
+      startTime && endTime && active.mode !== 'custom'
+        ? {
+            seed: active.seed,
+            placements,
+            timeMs: endTime - startTime + penaltyMs,
+            hints: hintsUsed,
+            undos: undoCount,
+          }
+        : null,
+    [startTime, endTime, active, placements, penaltyMs, hintsUsed, undoCount],
+  )
+
+  const exportDocument: PuzzleDocument | null = useMemo(
+    () =>
+      board && inventory
+        ? {
+            board,
+            inventory,
+            locked,
+            placements,
+            variant,
+            objective: par ? 'maxScore' : 'complete',
+            par: par?.score ?? null,
+            rules,
+          }
+        : null,
+    [board, inventory, locked, placements, variant, par, rules],
+  )
+
+  const importPuzzle = (doc: PuzzleDocument) => {
+    setShowImport(false)
+    navigate(customRoute(compactPuzzle(doc)))
   }
 
-  const formatCountdown = (ms: number) => {
-    const totalSeconds = Math.max(0, Math.floor(ms / 1000))
-    const hours = Math.floor(totalSeconds / 3600)
-    const minutes = Math.floor((totalSeconds % 3600) / 60)
-    const seconds = totalSeconds % 60
-    const pad = (n: number) => n.toString().padStart(2, '0')
-    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+  const playEdited = (doc: PuzzleDocument) => {
+    setEditing(null)
+    navigate(customRoute(compactPuzzle(doc)))
   }
 
   const boardSize = useMemo(
@@ -178,141 +490,341 @@ function App() {
     [],
   )
 
-  const boardStyle = useMemo(
-    () => ({
-      width: boardSize,
-      height: boardSize,
+  const boardStyle = useMemo(() => {
+    return {
+      ...(board ? boardDimensions(board, boardSize) : { width: boardSize, height: boardSize }),
       border: `3px solid ${parHit ? '#22c55e' : '#000'}`,
       borderRadius: '8px',
       boxSizing: 'border-box' as const,
       boxShadow: parHit ? '0 0 24px rgba(34,197,94,0.75)' : undefined,
-    }),
-    [boardSize, parHit],
+    }
+  }, [board, boardSize, parHit])
+
+  const pieces: PositionDataType = useMemo(
+    () => (board ? piecePositions(board, allPlacements) : {}),
+    [board, allPlacements],
   )
 
-  const toSquare = useCallback(
-    (row: number, col: number) => {
-      if (!board) return ''
-      const file = String.fromCharCode(97 + col)
-      const rank = board.height - row
-      return `${file}${rank}`
-    },
-    [board],
+  const hintView = useMemo(
+    () => (hint && board ? describeHint(board, hint.analysis, hint.tier) : null),
+    [hint, board],
   )
 
-  const pieces: PositionDataType = useMemo(() => {
-    const map: PositionDataType = {}
-    placements.forEach((p) => {
-      const square = toSquare(p.row, p.col)
-      if (square) {
-        map[square] = { pieceType: pieceToFen[p.type] }
-      }
-    })
-    return map
-  }, [placements, toSquare])
-
-  const hintState = useMemo(() => {
-    if (!showHint) return { wrong: null as string | null, suggest: null as string | null }
-    if (hasConflicts) return { wrong: null, suggest: null }
-    if (!board || !inventory) return { wrong: null, suggest: null }
-
-    const solvedWithCurrent = solveWithInventory(board, inventory, placements)
-    if (!solvedWithCurrent) {
-      for (let i = 0; i < placements.length; i++) {
-        const test = placements.filter((_, idx) => idx !== i)
-        const stillSolvable = solveWithInventory(board, inventory, test)
-        if (stillSolvable) {
-          return { wrong: `${placements[i].row},${placements[i].col}`, suggest: null }
-        }
-      }
-      return { wrong: null, suggest: null }
+  const overlay = useMemo((): BoardOverlay | null => {
+    if (!board || !inventory || !settings.overlays || parHit) return null
+    const occupied = new Set(allPlacements.map((p) => `${p.row},${p.col}`))
+    const attacked = new Map(
+      [...attackCounts(board, allPlacements, rules)].filter(([key]) => !occupied.has(key)),
+    )
+    const canPlace = (inventory[selected] ?? 0) > (placedCounts[selected] ?? 0)
+    const safe = canPlace ? safeSquares(board, allPlacements, selected, rules) : new Set<string>()
+    const coord = hovered ? parseSquare(board, hovered) : null
+    const piece =
+      coord &&
+      (allPlacements.find((p) => p.row === coord.row && p.col === coord.col) ??
+        (canPlace && board.cells[coord.row][coord.col] === 'valid' ? { ...coord, type: selected } : null))
+    const preview = piece ? attackedSquares(board, piece, allPlacements, rules) : new Set<string>()
+    return { attacked, safe, preview }
+  }, [board, inventory, settings.overlays, parHit, allPlacements, rules, selected, placedCounts, hovered])
+
+  const squareStyles = useMemo(() => {
+    if (!board) return {}
+    const base = boardSquareStyles(board, locked, conflicts.positions)
+    const styles = overlay ? withOverlay(board, base, overlay) : base
+    const ring = (key: string | null | undefined, color: string) => {
+      if (!key) return
+      const [row, col] = key.split(',').map(Number)
+      const square = squareName(board, row, col)
+      styles[square] = { ...styles[square], boxShadow: `inset 0 0 0 3px ${color}` }
+    }
+    ring(hintView?.wrong, '#f97316')
+    ring(hintView?.suggest, '#22c55e')
+    if (cursor && cursorShown) {
+      // An outline, so the rings underneath stay visible.
+      const square = squareName(board, cursor.row, cursor.col)
+      styles[square] = { ...styles[square], outline: '3px solid #2563eb', outlineOffset: '-3px' }
     }
+    return styles
+  }, [board, locked, conflicts.positions, overlay, hintView, cursor, cursorShown])
 
-    if (parHit) return { wrong: null, suggest: null }
+  const labels = useMemo(
+    () => (board ? squareLabels(board, allPlacements, locked, conflicts.positions) : {}),
+    [board, allPlacements, locked, conflicts.positions],
+  )
 
-    let suggest: string | null = null
-    for (const p of solvedWithCurrent) {
-      const key = `${p.row},${p.col}`
-      if (!placements.find((pl) => pl.row === p.row && pl.col === p.col && pl.type === p.type)) {
-        suggest = key
-        break
-      }
-    }
-    return { wrong: null, suggest }
-  }, [showHint, hasConflicts, board, placements, parHit, inventory])
+  const remainingOf = (type: PieceType) =>
+    (inventory ? inventory[type] ?? 0 : 0) - (placedCounts[type] ?? 0)
 
-  const squareStyles = useMemo(() => {
-    const styles: Record<string, CSSProperties> = {}
-    if (!board) return styles
-    board.cells.forEach((rowCells, row) =>
-      rowCells.forEach((cell, col) => {
-        const square = toSquare(row, col)
-        if (!square) return
-        if (cell === 'blocked') {
-          styles[square] = {
-            backgroundColor: '#000000',
-            opacity: 0.92,
-          }
-        }
-        if (conflicts.positions.has(`${row},${col}`)) {
-          styles[square] = {
-            ...styles[square],
-            boxShadow: 'inset 0 0 0 3px #ef4444',
-          }
-        }
-        if (hintState.wrong === `${row},${col}`) {
-          styles[square] = {
-            ...styles[square],
-            boxShadow: 'inset 0 0 0 3px #f97316',
-          }
-        }
-        if (hintState.suggest === `${row},${col}`) {
-          styles[square] = {
-            ...styles[square],
-            boxShadow: 'inset 0 0 0 3px #22c55e',
-          }
-        }
+  const commitPlacements = (
+    next: PiecePlacement[],
+    nextHistory: UndoHistory,
+    step: (t: number) => ReplayStep,
+  ) => {
+    if (!board || !inventory) return
+    const ts = Date.now()
+    const start = startTime ?? (next.length > 0 ? ts : null)
+    const recorded = step(start === null ? 0 : ts - start)
+    const undos = undoCount + (recorded[1] === 'undo' ? 1 : 0)
+    const redos = redoCount + (recorded[1] === 'redo' ? 1 : 0)
+    setPlacements(next)
+    setHistory(nextHistory)
+    setReplay((prev) => [...prev, recorded])
+    setHint(null)
+    setHintNotice(null)
+    // Any pending analysis was for the old position.
+    hintTask.current?.cancel()
+    setUndoCount(undos)
+    setRedoCount(redos)
+    if (startTime === null && start !== null) {
+      setStartTime(start)
+      setEndTime(null)
+    }
+    const all = [...locked, ...next]
+    const solved = reachesGoal(board, inventory, all)
+    setAnnouncement(describeChange(board, recorded, evaluateConflicts(board, all, rules).conflicts, solved))
+    if (!solved) {
+      setModalDismissed(false)
+      return
+    }
+    if (start === null || endTime !== null) return
+    const penaltyMs = hintsUsed * HINT_PENALTY_MS
+    setEndTime(ts)
+    // Imported puzzles can be anything, so they stay out of stats and streaks.
+    if (active.mode === 'custom') return
+    setResults(
+      recordResult({
+        seed: active.seed,
+        mode: active.mode,
+        timeMs: ts - start + penaltyMs,
+        undos,
+        redos,
+        hints: hintsUsed,
+        penaltyMs,
+        difficulty: rating?.label ?? null,
+        solvedAt: ts,
       }),
     )
-    return styles
-  }, [board, conflicts.positions, hintState, toSquare])
+  }
 
-  const remainingOf = (type: PieceType) =>
-    (inventory ? inventory[type] ?? 0 : 0) - (placedCounts[type] ?? 0)
+  const runCommand = (command: Command) =>
+    commitPlacements(applyCommand(placements, command), recordCommand(history, command), (t) =>
+      commandStep(t, command),
+    )
+
+  const undoLast = () => {
+    const previous = undo(history, placements)
+    if (previous) commitPlacements(previous.placements, previous.history, (t) => [t, 'undo'])
+  }
+
+  const redoLast = () => {
+    const next = redo(history, placements)
+    if (next) commitPlacements(next.placements, next.history, (t) => [t, 'redo'])
+  }
+
+  // An effect event, so the listener sees the latest history and placements without resubscribing.
+  const onUndoKey = useEffectEvent((e: KeyboardEvent) => {
+    if (modalOpen || loading || !(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+    // Text fields keep their own undo.
+    const tag = (e.target as HTMLElement | null)?.tagName
+    if (tag === 'INPUT' || tag === 'TEXTAREA') return
+    e.preventDefault()
+    if (e.shiftKey) redoLast()
+    else undoLast()
+  })
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => onUndoKey(e)
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+
+  const isFreeSquare = (row: number, col: number) =>
+    !!board && board.cells[row][col] === 'valid' && !allPlacements.some((p) => p.row === row && p.col === col)
+
+  const placePiece = (row: number, col: number, type: PieceType): boolean => {
+    if (!isFreeSquare(row, col) || remainingOf(type) <= 0) return false
+    runCommand({ kind: 'place', piece: { row, col, type } })
+    return true
+  }
+
+  const removePiece = (row: number, col: number): boolean => {
+    const index = placements.findIndex((p) => p.row === row && p.col === col)
+    if (index < 0) return false
+    runCommand({ kind: 'remove', piece: placements[index], index })
+    return true
+  }
+
+  const movePiece = (from: Coord, to: Coord): boolean => {
+    const index = placements.findIndex((p) => p.row === from.row && p.col === from.col)
+    if (index < 0 || !isFreeSquare(to.row, to.col)) return false
+    runCommand({ kind: 'move', index, from, to })
+    return true
+  }
 
   const togglePlacement = (row: number, col: number) => {
     if (!board || !inventory) return
-    if (board.cells[row][col] === 'blocked') return
-    setPlacements((prev) => {
-      const existingIndex = prev.findIndex((p) => p.row === row && p.col === col)
-      if (existingIndex >= 0) {
-        const next = [...prev]
-        next.splice(existingIndex, 1)
-        return next
-      }
-      if (remainingOf(selected) <= 0) return prev
-      const next: PiecePlacement = { row, col, type: selected }
-      return [...prev, next]
-    })
+    if (!removePiece(row, col)) placePiece(row, col, selected)
   }
 
   const handleSquareClick = (square: string) => {
+    const coord = board ? parseSquare(board, square) : null
+    if (coord) togglePlacement(coord.row, coord.col)
+  }
+
+  const moveCursor = (row: number, col: number) => {
     if (!board) return
-    const col = square.charCodeAt(0) - 97
-    const rank = Number(square[1])
-    const row = board.height - rank
-    togglePlacement(row, col)
+    setCursor({ row, col })
+    setCursorShown(true)
+    // Shows the same attack preview a pointer would.
+    setHovered(squareName(board, row, col))
+    setAnnouncement(describeSquare(board, row, col, allPlacements, locked, conflicts.positions))
   }
 
-  const hintMessage = null
+  const handleKeyboardFocus = (focused: boolean) => {
+    if (focused) {
+      moveCursor(cursor?.row ?? 0, cursor?.col ?? 0)
+      return
+    }
+    // Leave a pointer's preview alone; only the cursor's goes with it.
+    if (cursorShown) setHovered(null)
+    setCursorShown(false)
+  }
+
+  const handleBoardKey: BoardKeyboard['onKeyDown'] = (e) => {
+    if (!board) return
+    const at = cursor ?? { row: 0, col: 0 }
+    const step = CURSOR_STEPS[e.key]
+    if (step) {
+      e.preventDefault()
+      const row = Math.min(board.height - 1, Math.max(0, at.row + step[0]))
+      const col = Math.min(board.width - 1, Math.max(0, at.col + step[1]))
+      moveCursor(row, col)
+      return
+    }
+    if (e.key !== 'Enter' && e.key !== ' ') return
+    e.preventDefault()
+    if (!cursor) {
+      moveCursor(at.row, at.col)
+      return
+    }
+    const { row, col } = cursor
+    const name = squareName(board, row, col)
+    const cell = board.cells[row][col]
+    // Placements announce themselves; say why when nothing happens.
+    if (cell !== 'valid') {
+      setAnnouncement(`${name} is ${cell === 'blocked' ? 'blocked' : 'outside the board'}`)
+    } else if (locked.some((p) => p.row === row && p.col === col)) {
+      setAnnouncement(`The piece on ${name} is locked`)
+    } else if (!removePiece(row, col) && !placePiece(row, col, selected)) {
+      setAnnouncement(`No ${pieceLabel[selected]} left to place`)
+    }
+  }
+
+  // Inventory chips drag out while any of that piece is left; on the board only the player's own pieces move.
+  const canDragPiece = (square: string | null, code: string) => {
+    if (square === null) {
+      const type = pieceForCode(code)
+      return !!type && remainingOf(type) > 0
+    }
+    const coord = board ? parseSquare(board, square) : null
+    return !!coord && placements.some((p) => p.row === coord.row && p.col === coord.col)
+  }
+
+  // Rejected drops (blocked or taken squares, nothing left to place) snap back without a replay step.
+  const handlePieceDrop = ({ source, target, code }: PieceDrop): boolean => {
+    if (!board || !inventory) return false
+    const to = target ? parseSquare(board, target) : null
+    if (source === null) {
+      const type = pieceForCode(code)
+      if (!type || !to || !placePiece(to.row, to.col, type)) return false
+      selectPiece(type, false)
+      return true
+    }
+    const from = parseSquare(board, source)
+    if (!from || source === target) return false
+    return to ? movePiece(from, to) : removePiece(from.row, from.col)
+  }
+
+  const hintsLeft = Math.max(0, HINTS_PER_DAY - hintsUsed)
+  // Hints explain how to place the whole inventory, which max-score days don't ask for.
+  const canHint = !par && !parHit && !hintPending && hintsLeft > 0 && (hint?.tier ?? 0) < MAX_HINT_TIER
+
+  const applyHint = (analysis: HintAnalysis) => {
+    if (isFreeHint(analysis)) {
+      setHint({ tier: MAX_HINT_TIER, analysis })
+      return
+    }
+    setHint({ tier: (hint?.tier ?? 0) + 1, analysis })
+    setHintsUsed((n) => n + 1)
+  }
+
+  const requestHint = () => {
+    if (!board || !inventory || !canHint) return
+    if (hint) {
+      applyHint(hint.analysis)
+      return
+    }
+    const task = requestHintAnalysis(board, inventory, placements, locked, rules, HINT_BUDGET_MS)
+    hintTask.current = task
+    setHintPending(true)
+    setHintNotice(null)
+    task.promise
+      .then(applyHint, (err: unknown) => {
+        if (err instanceof EngineError && err.reason === 'cancelled') return
+        setHintNotice(
+          err instanceof EngineError && err.reason === 'timeout'
+            ? 'This position took too long to analyse. No hint was used.'
+            : 'Hint failed. No hint was used.',
+        )
+      })
+      .finally(() => {
+        if (hintTask.current !== task) return
+        hintTask.current = null
+        setHintPending(false)
+      })
+  }
+
+  if (editing) {
+    return <PuzzleEditor initial={editing} onPlay={playEdited} onClose={() => setEditing(null)} />
+  }
+
+  if (loadError) {
+    return (
+      <div className="page">
+        <header className="hero">
+          <div>
+            <h1>Daily Line of Sight</h1>
+            <p className="lede">{loadError}</p>
+            {route.mode === 'custom' && (
+              <button onClick={() => navigate({ seed: todaySeed, mode: 'daily' })}>
+                Play today’s puzzle
+              </button>
+            )}
+          </div>
+        </header>
+      </div>
+    )
+  }
 
   if (loading || !board || !inventory) {
+    const progress = loadProgress?.seed === route.seed ? loadProgress : null
     return (
       <div className="page">
         <header className="hero">
           <div>
             <h1>Daily Line of Sight</h1>
-            <p className="lede">Preparing today&apos;s board and inventory...</p>
+            <p className="lede">
+              {route.mode === 'custom'
+                ? 'Preparing the imported puzzle...'
+                : route.mode === 'archive'
+                  ? `Preparing the ${formatSeedDate(route.seed)} board and inventory...`
+                  : 'Preparing today\u2019s board and inventory...'}
+            </p>
+            {progress && progress.done > 0 && (
+              <p className="hint">
+                Checking candidate board {progress.done + 1} of {progress.total}
+              </p>
+            )}
           </div>
         </header>
       </div>
@@ -321,78 +833,301 @@ function App() {
 
   return (
     <div className="page">
-      <div className="timer-stack">
-        <div className="countdown">
-          <span className="countdown-label">Next daily</span>
-          <span className="countdown-value">{formatCountdown(countdownMs)}</span>
+      <header className="top-bar">
+        <div className="timer-stack">
+          {active.mode === 'archive' ? (
+            <div className="countdown">
+              <span className="countdown-label">Archive</span>
+              <span className="countdown-value">{formatSeedDate(active.seed)}</span>
+            </div>
+          ) : active.mode === 'custom' ? (
+            <div className="countdown">
+              <span className="countdown-label">Imported</span>
+              <span className="countdown-value">Custom puzzle</span>
+            </div>
+          ) : (
+            <div className="countdown">
+              <span className="countdown-label">Next daily</span>
+              <span className="countdown-value">{formatCountdown(countdownMs)}</span>
+            </div>
+          )}
+          {rating && (
+            <span
+              className={`difficulty-badge ${rating.label.toLowerCase()}`}
+              title={`Difficulty ${rating.score}/100`}
+            >
+              {rating.label}
+            </span>
+          )}
         </div>
-      </div>
+        <div className="top-actions">
+          {active.mode !== 'daily' && (
+            <button
+              className="secondary-btn"
+              onClick={() => navigate({ seed: todaySeed, mode: 'daily' })}
+            >
+              Today
+            </button>
+          )}
+          <button className="secondary-btn" onClick={() => setShowHowTo(true)}>
+            How to play
+          </button>
+          <button className="secondary-btn" onClick={() => setShowArchive(true)}>
+            Archive
+          </button>
+          <button className="secondary-btn" onClick={() => setShowStats(true)}>
+            Stats
+          </button>
+          <button className="secondary-btn" onClick={() => setShowSettings(true)}>
+            Settings
+          </button>
+          {active.mode !== 'custom' && (
+            <button className="secondary-btn" onClick={() => setShowLeaderboard(true)}>
+              Leaderboard
+            </button>
+          )}
+          {endTime !== null && replay.length > 0 && (
+            <button className="secondary-btn" onClick={() => setShowReplay(true)}>
+              Replay
+            </button>
+          )}
+        </div>
+      </header>
 
-      <InventoryBar
-        inventory={inventory}
-        inventoryList={inventoryList}
-        placedCounts={placedCounts}
-        selected={selected}
-        onSelect={setSelected}
-      />
-
-      <section className="board-wrap">
-        <div className="board-card">
-          <div className="board-card-header">
-            <TimerDisplay timeLabel={formatTime(elapsedMs)} />
+      <BoardProvider
+        id="daily-mix"
+        boardStyle={boardStyle}
+        rows={board.height}
+        columns={board.width}
+        pieces={pieces}
+        squareStyles={squareStyles}
+        squareLabels={labels}
+        arrows={conflictArrowList}
+        onSquareClick={handleSquareClick}
+        onSquareHover={setHovered}
+        onPieceDrop={handlePieceDrop}
+        canDragPiece={canDragPiece}
+      >
+        <InventoryBar
+          inventory={inventory}
+          inventoryList={inventoryList}
+          placedCounts={placedCounts}
+          selected={selected}
+          onSelect={selectPiece}
+        />
+
+        <section className="board-wrap">
+          <div className="board-card">
+            <div className="board-card-header">
+              <TimerDisplay timeLabel={formatTime(elapsedMs)} />
+              {par && <ScoreDisplay score={score} par={par} />}
+            </div>
+            <BoardSection
+              conflictLines={conflictLines}
+              parHit={parHit}
+              keyboard={{
+                label: 'Board. Arrow keys move between squares, Enter or Space places or removes a piece.',
+                onKeyDown: handleBoardKey,
+                onKeyboardFocus: handleKeyboardFocus,
+              }}
+              onHint={requestHint}
+              onUndo={undoLast}
+              onRedo={redoLast}
+              canHint={canHint}
+              canUndo={history.done.length > 0}
+              canRedo={history.undone.length > 0}
+              hintsLeft={hintsLeft}
+              hintMessage={hintPending ? 'Thinking…' : (hintView?.message ?? hintNotice)}
+            />
+            <p className="sr-only" role="status" aria-live="polite">
+              {announcement}
+            </p>
           </div>
-          <BoardSection
-            boardStyle={boardStyle}
-            pieces={pieces}
-            squareStyles={squareStyles}
-            parHit={parHit}
-            onSquareClick={handleSquareClick}
-            onHint={() => setShowHint(true)}
-            onReset={() => setPlacements((prev) => prev.slice(0, -1))}
-            canHint={false}
-            canReset={placements.length > 0}
-            hintMessage={hintMessage}
-          />
-        </div>
+          <button
+            className="clear-btn"
+            onClick={() => runCommand({ kind: 'clear', pieces: placements })}
+            disabled={placements.length === 0}
+          >
+            Clear
+          </button>
+        </section>
+      </BoardProvider>
+
+      <div className="file-actions">
+        <button className="secondary-btn" onClick={() => setShowExport(true)}>
+          Export
+        </button>
+        <button className="secondary-btn" onClick={() => setShowImport(true)}>
+          Import
+        </button>
         <button
-          className="clear-btn"
-          onClick={() => {
-            setPlacements([])
-            setShowHint(false)
-            setModalDismissed(false)
-          }}
-          disabled={placements.length === 0}
+          className="secondary-btn"
+          onClick={() => setEditing(exportDocument ? { ...exportDocument, placements: [] } : blankDocument())}
         >
-          Clear
+          Edit
         </button>
-      </section>
+      </div>
 
       {showModal && (
         <div className="modal-overlay" role="alertdialog" aria-label="Puzzle solved">
           <div className="modal">
             <h2>Puzzle solved</h2>
-            <p>You placed every piece without conflict. Nice work.</p>
-            <button
-              onClick={() => {
-                setShowModal(false)
-                setModalDismissed(true)
-              }}
-            >
-              Close
-            </button>
+            <p>
+              {!par
+                ? 'You placed every piece without conflict. Nice work.'
+                : score > par.score
+                  ? `You scored ${score}, beating par by ${score - par.score}. Nice work.`
+                  : `You reached par with ${score} points. Nice work.`}
+            </p>
+            {shareResult && <SharePanel result={shareResult} />}
+            <div className="modal-actions">
+              <button
+                onClick={() => {
+                  setModalDismissed(true)
+                  setShowStats(true)
+                }}
+              >
+                Stats
+              </button>
+              {active.mode !== 'custom' && (
+                <button
+                  onClick={() => {
+                    setModalDismissed(true)
+                    setShowLeaderboard(true)
+                  }}
+                >
+                  Leaderboard
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setModalDismissed(true)
+                  setShowReplay(true)
+                }}
+              >
+                Replay
+              </button>
+              <button
+                onClick={() => setModalDismissed(true)}
+              >
+                Close
+              </button>
+            </div>
           </div>
         </div>
       )}
 
+      {showArchive && (
+        <ArchiveCalendar
+          seeds={archiveSeeds}
+          solvedSeeds={solvedSeeds}
+          startedSeeds={startedSeeds}
+          currentSeed={active.seed}
+          onSelect={(seed) => {
+            setShowArchive(false)
+            navigate({ seed, mode: 'archive' })
+          }}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
+      {showStats && (
+        <StatsModal
+          summary={statsSummary}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {showLeaderboard && (
+        <LeaderboardPanel
+          key={active.seed}
+          seed={active.seed}
+          submission={leaderboardSubmission}
+          onClose={() => setShowLeaderboard(false)}
+        />
+      )}
+
+      {showReplay && (
+        <ReplayViewer
+          board={board}
+          locked={locked}
+          start={replayStart}
+          rules={rules}
+          steps={replay}
+          onClose={() => setShowReplay(false)}
+        />
+      )}
+
+      {showExport && exportDocument && (
+        <ExportPanel
+          document={exportDocument}
+          fileName={`line-of-sight-${active.mode === 'custom' ? 'custom' : formatSeedDate(active.seed)}.txt`}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showImport && <ImportPanel onImport={importPuzzle} onClose={() => setShowImport(false)} />}
+
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          onChange={(next) => {
+            setSettings(next)
+            saveSettings(next)
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {showHowTo && (
         <div className="modal-overlay" role="dialog" aria-label="How to play">
           <div className="modal">
             <h2>How to play</h2>
             <ul className="howto-list">
               <li>Select a piece from the top bar, then tap a valid square to place it.</li>
+              <li>
+                On a keyboard, number keys pick a piece and A/D cycle through them. Tab to the board, move with
+                the arrow keys and press Enter or Space to place or remove.
+              </li>
+              <li>
+                You can also drag pieces from the top bar onto the board, between squares, or off the board to
+                remove them.
+              </li>
               <li>Pieces follow normal chess attacks. Blocked squares stop sliding pieces and can’t hold pieces.</li>
+              {activeVariants(rules).map((variant) => (
+                <li key={variant}>
+                  <strong>This puzzle: {RULE_VARIANTS[variant].label}.</strong> {RULE_VARIANTS[variant].description}
+                </li>
+              ))}
+              <li>Board size and shape change through the week; squares outside the shape act like the board’s edge.</li>
+              <li>
+                Fridays bring fairy pieces: the Amazon, Chancellor and Archbishop add knight jumps to a queen,
+                rook and bishop; the Nightrider repeats knight jumps in a line; the Camel leaps one by three.
+              </li>
               <li>You must place all given pieces so none attack each other.</li>
-              <li>Use Hint to spot one incorrect piece or a needed square; Undo/Reset to adjust.</li>
+              <li>
+                When pieces clash, arrows run from attacker to target (purple if they attack each other) and
+                the list under the board says how.
+              </li>
+              <li>
+                On max-score days you get more pieces than fit. Place any of them, without attacks, to reach
+                the par score; each piece is worth its chess value.
+              </li>
+              <li>Some days start with locked pieces on striped squares. They count toward your set and can’t be moved.</li>
+              <li>
+                You get {HINTS_PER_DAY} hints a day, each adding {HINT_PENALTY_MS / 1000}s to your time.
+                Press Hint again on the same position for a more specific clue.
+              </li>
+              <li>
+                Red shading marks squares your pieces already attack, green dots where the selected piece fits,
+                and hovering shows a piece’s lines. Turn these off in Settings.
+              </li>
+              <li>
+                Undo and Redo (Ctrl+Z and Ctrl+Shift+Z) step back and forth through your placements, removals,
+                moves and clears. Clear starts over.
+              </li>
+              <li>Export saves the puzzle as text or a link; Import plays one, outside your stats.</li>
+              <li>Edit opens this board in the editor, where you can build, check and share your own puzzle.</li>
             </ul>
             <button onClick={() => setShowHowTo(false)}>Close</button>
           </div>
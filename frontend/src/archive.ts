@@ -0,0 +1,82 @@
+import { hashSeed, makeDailySeed } from './engine'
+
+/** First daily ever published; the archive never goes further back than this. */
+export const LAUNCH_DATE = '2026-01-01'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** `custom` puzzles come from a puzzle file rather than the daily generator. */
+export type PlayMode = 'daily' | 'archive' | 'custom'
+
+export type PuzzleRoute = {
+  seed: string
+  mode: PlayMode
+  /** The puzzle file text, for custom routes only. */
+  puzzle?: string
+}
+
+export function seedToDayNumber(seed: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(seed)
+  if (!match) return null
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  const date = new Date(time)
+  // Reject rollovers such as 2026-02-31 instead of silently moving to March.
+  if (makeDailySeed(date) !== seed) return null
+  return Math.floor(time / DAY_MS)
+}
+
+export function dayNumberToSeed(day: number): string {
+  return makeDailySeed(new Date(day * DAY_MS))
+}
+
+function parseDateParam(value: string | null): string | null {
+  if (!value) return null
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  return match ? `${match[1]}${match[2]}${match[3]}` : null
+}
+
+function launchSeed(): string {
+  return LAUNCH_DATE.replace(/-/g, '')
+}
+
+export function isArchiveSeed(seed: string, today = new Date()): boolean {
+  const day = seedToDayNumber(seed)
+  const first = seedToDayNumber(launchSeed())
+  const current = seedToDayNumber(makeDailySeed(today))
+  return day !== null && first !== null && current !== null && day >= first && day < current
+}
+
+/** Custom puzzles get a stable id from their text, so their attempts can be saved like any other. */
+export function customRoute(puzzle: string): PuzzleRoute {
+  return { seed: `custom-${hashSeed(puzzle).toString(36)}`, mode: 'custom', puzzle }
+}
+
+/**
+ * Resolves `?puzzle=...` to a custom puzzle (checked when it loads) and `?date=YYYY-MM-DD` to an
+ * archive day; anything missing, malformed, in the future or before launch plays today.
+ */
+export function parseRoute(search: string, today = new Date()): PuzzleRoute {
+  const params = new URLSearchParams(search)
+  const puzzle = params.get('puzzle')
+  if (puzzle) return customRoute(puzzle)
+  const requested = parseDateParam(params.get('date'))
+  if (requested && isArchiveSeed(requested, today)) return { seed: requested, mode: 'archive' }
+  return { seed: makeDailySeed(today), mode: 'daily' }
+}
+
+export function routeSearch(route: PuzzleRoute): string {
+  if (route.mode === 'daily') return ''
+  if (route.mode === 'custom') return `?puzzle=${encodeURIComponent(route.puzzle ?? '')}`
+  const { seed } = route
+  return `?date=${seed.slice(0, 4)}-${seed.slice(4, 6)}-${seed.slice(6, 8)}`
+}
+
+/** Every archive seed from launch up to (not including) today, oldest first. */
+export function listArchiveSeeds(today = new Date()): string[] {
+  const first = seedToDayNumber(launchSeed())
+  const current = seedToDayNumber(makeDailySeed(today))
+  if (first === null || current === null) return []
+  const seeds: string[] = []
+  for (let day = first; day < current; day++) seeds.push(dayNumberToSeed(day))
+  return seeds
+}
@@ -0,0 +1,104 @@
+import type { CSSProperties } from 'react'
+import type { PositionDataType } from 'react-chessboard'
+import type { Board, PiecePlacement } from './engine'
+import { pieceToFen } from './pieces'
+import { squareName } from './squares'
+
+export const CONFLICT_RING = 'inset 0 0 0 3px #ef4444'
+
+/** Blocked, void and locked squares, with a red ring on every `row,col` in `conflicts`. */
+export function boardSquareStyles(
+  board: Board,
+  locked: PiecePlacement[],
+  conflicts: Set<string>,
+): Record<string, CSSProperties> {
+  const styles: Record<string, CSSProperties> = {}
+  board.cells.forEach((rowCells, row) =>
+    rowCells.forEach((cell, col) => {
+      const square = squareName(board, row, col)
+      if (cell === 'blocked') {
+        styles[square] = {
+          backgroundColor: '#000000',
+          opacity: 0.92,
+        }
+      }
+      if (cell === 'void') {
+        styles[square] = {
+          backgroundColor: '#f8fafc',
+          cursor: 'default',
+        }
+      }
+      if (locked.some((p) => p.row === row && p.col === col)) {
+        styles[square] = {
+          backgroundColor: '#94a3b8',
+          backgroundImage:
+            'repeating-linear-gradient(45deg, rgba(15,23,42,0.18) 0 4px, transparent 4px 10px)',
+          cursor: 'not-allowed',
+        }
+      }
+      if (conflicts.has(`${row},${col}`)) {
+        styles[square] = {
+          ...styles[square],
+          boxShadow: CONFLICT_RING,
+        }
+      }
+    }),
+  )
+  return styles
+}
+
+/** Optional aids drawn over the board's own styles; all keyed `row,col`. */
+export type BoardOverlay = {
+  /** How many pieces attack each empty square. */
+  attacked: Map<string, number>
+  /** Where the selected piece could go without a conflict. */
+  safe: Set<string>
+  /** Squares the hovered piece attacks, or would attack if placed there. */
+  preview: Set<string>
+}
+
+const tint = (color: string) => `linear-gradient(${color}, ${color})`
+const SAFE_DOT = 'radial-gradient(circle, rgba(22,163,74,0.85) 0 14%, transparent 16%)'
+const PREVIEW_TINT = tint('rgba(37,99,235,0.32)')
+
+// Layers go on as background images, so the light and dark squares still show through.
+export function withOverlay(
+  board: Board,
+  styles: Record<string, CSSProperties>,
+  overlay: BoardOverlay,
+): Record<string, CSSProperties> {
+  const result = { ...styles }
+  board.cells.forEach((rowCells, row) =>
+    rowCells.forEach((cell, col) => {
+      if (cell !== 'valid') return
+      const key = `${row},${col}`
+      const layers: string[] = []
+      if (overlay.safe.has(key)) layers.push(SAFE_DOT)
+      if (overlay.preview.has(key)) layers.push(PREVIEW_TINT)
+      const attackers = overlay.attacked.get(key) ?? 0
+      if (attackers > 0) layers.push(tint(`rgba(239,68,68,${Math.min(0.55, 0.12 + 0.1 * attackers)})`))
+      if (layers.length === 0) return
+      const square = squareName(board, row, col)
+      const existing = result[square]?.backgroundImage
+      result[square] = {
+        ...result[square],
+        backgroundImage: [...layers, ...(existing ? [existing] : [])].join(', '),
+      }
+    }),
+  )
+  return result
+}
+
+export function piecePositions(board: Board, placements: PiecePlacement[]): PositionDataType {
+  const map: PositionDataType = {}
+  placements.forEach((p) => {
+    map[squareName(board, p.row, p.col)] = { pieceType: pieceToFen[p.type] }
+  })
+  return map
+}
+
+/** The longer side gets the full size so tall and wide boards keep square cells. */
+export function boardDimensions(board: Board, size: number): { width: number; height: number } {
+  const longest = Math.max(board.width, board.height)
+  return { width: (size * board.width) / longest, height: (size * board.height) / longest }
+}
@@ -0,0 +1,60 @@
+import { describeConflict } from './conflicts'
+import type { Board, Conflict, PiecePlacement } from './engine'
+import { pieceLabel } from './pieces'
+import { describeStep } from './replay'
+import type { ReplayStep } from './replay'
+import { squareName } from './squares'
+
+/**
+ * A square in words, for screen readers: what `boardSquareStyles` and the piece icons show.
+ * `placements` includes locked pieces; `conflicts` holds `row,col` keys as `evaluateConflicts` reports them.
+ */
+export function describeSquare(
+  board: Board,
+  row: number,
+  col: number,
+  placements: PiecePlacement[],
+  locked: PiecePlacement[],
+  conflicts: Set<string>,
+): string {
+  const name = squareName(board, row, col)
+  const cell = board.cells[row][col]
+  if (cell === 'void') return `${name}, outside the board`
+  if (cell === 'blocked') return `${name}, blocked`
+  const piece = placements.find((p) => p.row === row && p.col === col)
+  if (!piece) return `${name}, empty`
+  const isLocked = locked.some((p) => p.row === row && p.col === col)
+  const parts = [name, `${isLocked ? 'locked ' : ''}${pieceLabel[piece.type]}`]
+  if (conflicts.has(`${row},${col}`)) parts.push('in conflict')
+  return parts.join(', ')
+}
+
+/** `describeSquare` for every square that isn't simply empty, keyed by square name. */
+export function squareLabels(
+  board: Board,
+  placements: PiecePlacement[],
+  locked: PiecePlacement[],
+  conflicts: Set<string>,
+): Record<string, string> {
+  const labels: Record<string, string> = {}
+  board.cells.forEach((rowCells, row) =>
+    rowCells.forEach((cell, col) => {
+      const occupied = placements.some((p) => p.row === row && p.col === col)
+      if (cell === 'valid' && !occupied) return
+      labels[squareName(board, row, col)] = describeSquare(board, row, col, placements, locked, conflicts)
+    }),
+  )
+  return labels
+}
+
+/** What a screen reader hears after an action: the action, then the solve or any conflicts it left. */
+export function describeChange(
+  board: Board,
+  step: ReplayStep,
+  conflicts: Conflict[],
+  solved: boolean,
+): string {
+  if (solved) return `${describeStep(board, step)}. Puzzle solved!`
+  const lines = conflicts.map((conflict) => `${describeConflict(board, conflict)}.`)
+  return [`${describeStep(board, step)}.`, ...lines].join(' ')
+}
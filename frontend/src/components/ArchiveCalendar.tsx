@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react'
+
+type Props = {
+  seeds: string[]
+  solvedSeeds: Set<string>
+  startedSeeds: Set<string>
+  currentSeed: string
+  onSelect: (seed: string) => void
+  onClose: () => void
+}
+
+type Month = {
+  key: string
+  label: string
+  leadingBlanks: number
+  seeds: string[]
+}
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su']
+
+function groupByMonth(seeds: string[]): Month[] {
+  const months: Month[] = []
+  seeds.forEach((seed) => {
+    const key = seed.slice(0, 6)
+    let month = months[months.length - 1]
+    if (!month || month.key !== key) {
+      const first = new Date(Date.UTC(Number(seed.slice(0, 4)), Number(seed.slice(4, 6)) - 1, 1))
+      month = {
+        key,
+        label: first.toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+        // Calendar rows start on Monday; days before launch in the first month stay blank too.
+        leadingBlanks: (first.getUTCDay() + 6) % 7 + Number(seed.slice(6, 8)) - 1,
+        seeds: [],
+      }
+      months.push(month)
+    }
+    month.seeds.push(seed)
+  })
+  return months
+}
+
+export function ArchiveCalendar({
+  seeds,
+  solvedSeeds,
+  startedSeeds,
+  currentSeed,
+  onSelect,
+  onClose,
+}: Props) {
+  const months = useMemo(() => groupByMonth(seeds), [seeds])
+  const [monthIndex, setMonthIndex] = useState(() => {
+    const current = months.findIndex((m) => m.key === currentSeed.slice(0, 6))
+    return current >= 0 ? current : months.length - 1
+  })
+  const month = months[monthIndex]
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Archive">
+      <div className="modal archive-modal">
+        <h2>Archive</h2>
+        {!month ? (
+          <p className="hint">No past puzzles yet. Check back tomorrow.</p>
+        ) : (
+          <>
+            <div className="archive-nav">
+              <button
+                onClick={() => setMonthIndex((i) => i - 1)}
+                disabled={monthIndex === 0}
+                aria-label="Previous month"
+              >
+                ‹
+              </button>
+              <span className="archive-month">{month.label}</span>
+              <button
+                onClick={() => setMonthIndex((i) => i + 1)}
+                disabled={monthIndex === months.length - 1}
+                aria-label="Next month"
+              >
+                ›
+              </button>
+            </div>
+            <div className="archive-grid">
+              {WEEKDAYS.map((d) => (
+                <span key={d} className="archive-weekday">
+                  {d}
+                </span>
+              ))}
+              {Array.from({ length: month.leadingBlanks }, (_, i) => (
+                <span key={`blank-${i}`} />
+              ))}
+              {month.seeds.map((seed) => {
+                const status = solvedSeeds.has(seed)
+                  ? 'solved'
+                  : startedSeeds.has(seed)
+                    ? 'started'
+                    : 'unsolved'
+                return (
+                  <button
+                    key={seed}
+                    className={`archive-day ${status} ${seed === currentSeed ? 'current' : ''}`}
+                    onClick={() => onSelect(seed)}
+                    aria-label={`${seed.slice(0, 4)}-${seed.slice(4, 6)}-${seed.slice(6, 8)}, ${status}`}
+                  >
+                    {Number(seed.slice(6, 8))}
+                  </button>
+                )
+              })}
+            </div>
+            <p className="archive-legend">
+              <span className="archive-day solved">✓</span> solved
+              <span className="archive-day started">…</span> in progress
+            </p>
+          </>
+        )}
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
@@ -1,57 +1,57 @@
-import React from 'react'
-import { Chessboard } from 'react-chessboard'
-import type { PositionDataType } from 'react-chessboard'
+import { BoardSurface } from './BoardView'
+import type { BoardKeyboard } from './BoardView'
 
 type Props = {
-  boardStyle: React.CSSProperties
-  pieces: PositionDataType
-  squareStyles: Record<string, React.CSSProperties>
+  /** One plain-language line per attacking pair. */
+  conflictLines: string[]
   parHit: boolean
-  onSquareClick: (square: string) => void
+  keyboard: BoardKeyboard
   onHint: () => void
-  onReset: () => void
+  onUndo: () => void
+  onRedo: () => void
   canHint: boolean
-  canReset: boolean
+  canUndo: boolean
+  canRedo: boolean
+  hintsLeft: number
   hintMessage: string | null
 }
 
+/** The daily board with its actions; render it inside the `BoardProvider` that holds the board. */
 export function BoardSection({
-  boardStyle,
-  pieces,
-  squareStyles,
+  conflictLines,
   parHit,
-  onSquareClick,
+  keyboard,
   onHint,
-  onReset,
+  onUndo,
+  onRedo,
   canHint,
-  canReset,
+  canUndo,
+  canRedo,
+  hintsLeft,
   hintMessage,
 }: Props) {
   return (
     <>
-      <div className={`board-shell ${parHit ? 'par' : ''}`}>
-        <Chessboard
-          options={{
-            id: 'daily-mix',
-            position: pieces,
-            allowDragging: false,
-            boardStyle: boardStyle,
-            squareStyles: squareStyles,
-            darkSquareStyle: { backgroundColor: '#b58863' },
-            lightSquareStyle: { backgroundColor: '#f0d9b5' },
-            onSquareClick: ({ square }) => onSquareClick(square),
-          }}
-        />
-      </div>
+      <BoardSurface parHit={parHit} keyboard={keyboard} />
       <div className="board-actions">
         <button className="hint-btn wide" onClick={onHint} disabled={!canHint}>
-          Hint
+          Hint ({hintsLeft})
         </button>
-        <button className="reset-btn wide" onClick={onReset} disabled={!canReset}>
+        <button className="reset-btn wide" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
           Undo
         </button>
+        <button className="reset-btn wide" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </button>
       </div>
       {hintMessage && <p className="hint-inline">{hintMessage}</p>}
+      {conflictLines.length > 0 && (
+        <ul className="conflict-list" aria-label="Conflicts">
+          {conflictLines.map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      )}
     </>
   )
 }
@@ -0,0 +1,130 @@
+import React from 'react'
+import { Chessboard, ChessboardProvider } from 'react-chessboard'
+import type { Arrow, PositionDataType } from 'react-chessboard'
+import { pieceIcons } from '../pieceIcons'
+
+/** A finished drag; squares are react-chessboard ids and `code` a `pieceIcons` key. */
+export type PieceDrop = {
+  /** Null when the piece came from the inventory. */
+  source: string | null
+  /** Null when it was dropped off the board. */
+  target: string | null
+  code: string
+}
+
+type BoardOptions = {
+  /** Must differ between boards shown at the same time. */
+  id: string
+  boardStyle: React.CSSProperties
+  rows: number
+  columns: number
+  pieces: PositionDataType
+  squareStyles: Record<string, React.CSSProperties>
+  /** Text for screen readers, keyed like `squareStyles`, since colours alone say nothing to them. */
+  squareLabels?: Record<string, string>
+  arrows?: Arrow[]
+  onSquareClick?: (square: string) => void
+  /** The square under the pointer, or null once it leaves one. */
+  onSquareHover?: (square: string | null) => void
+  /** Without it nothing can be dragged. Returns whether the drop was accepted. */
+  onPieceDrop?: (drop: PieceDrop) => boolean
+  /** Whether a drag may start; `square` is null for inventory pieces. */
+  canDragPiece?: (square: string | null, code: string) => boolean
+}
+
+/**
+ * One board's state and handlers. Its `BoardSurface` draws the board, and react-chessboard
+ * `SparePiece`s anywhere inside it can be dragged onto that board.
+ */
+export function BoardProvider({
+  id,
+  boardStyle,
+  rows,
+  columns,
+  pieces,
+  squareStyles,
+  squareLabels,
+  arrows = [],
+  onSquareClick,
+  onSquareHover,
+  onPieceDrop,
+  canDragPiece,
+  children,
+}: React.PropsWithChildren<BoardOptions>) {
+  return (
+    <ChessboardProvider
+      options={{
+        id,
+        position: pieces,
+        pieces: pieceIcons,
+        chessboardRows: rows,
+        chessboardColumns: columns,
+        allowDragging: !!onPieceDrop,
+        boardStyle: boardStyle,
+        squareStyles: squareStyles,
+        arrows,
+        darkSquareStyle: { backgroundColor: '#b58863' },
+        lightSquareStyle: { backgroundColor: '#f0d9b5' },
+        onSquareClick: ({ square }) => onSquareClick?.(square),
+        onMouseOverSquare: ({ square }) => onSquareHover?.(square),
+        onMouseOutSquare: () => onSquareHover?.(null),
+        canDragPiece: ({ isSparePiece, piece, square }) =>
+          canDragPiece?.(isSparePiece ? null : square, piece.pieceType) ?? true,
+        onPieceDrop: ({ piece, sourceSquare, targetSquare }) =>
+          onPieceDrop?.({
+            source: piece.isSparePiece ? null : sourceSquare,
+            target: targetSquare,
+            code: piece.pieceType,
+          }) ?? false,
+        // Same as react-chessboard's own square content, plus the label.
+        squareRenderer: squareLabels
+          ? ({ square, children }) => (
+              <div style={{ width: '100%', height: '100%', ...squareStyles[square] }}>
+                {children}
+                {squareLabels[square] && <span className="sr-only">{squareLabels[square]}</span>}
+              </div>
+            )
+          : undefined,
+      }}
+    >
+      {children}
+    </ChessboardProvider>
+  )
+}
+
+/** Makes the board a focus stop that handles its own keys, for play without a pointer. */
+export type BoardKeyboard = {
+  /** Read out when the board gets focus; say which keys do what. */
+  label: string
+  onKeyDown: (e: React.KeyboardEvent) => void
+  /** True when the board gets focus from the keyboard (not a click), false when it loses focus. */
+  onKeyboardFocus: (focused: boolean) => void
+}
+
+export function BoardSurface({ parHit, keyboard }: { parHit: boolean; keyboard?: BoardKeyboard }) {
+  return (
+    <div
+      className={`board-shell ${parHit ? 'par' : ''}`}
+      {...(keyboard && {
+        tabIndex: 0,
+        role: 'application',
+        'aria-label': keyboard.label,
+        onKeyDown: keyboard.onKeyDown,
+        onFocus: (e: React.FocusEvent<HTMLDivElement>) => {
+          if (e.currentTarget.matches(':focus-visible')) keyboard.onKeyboardFocus(true)
+        },
+        onBlur: () => keyboard.onKeyboardFocus(false),
+      })}
+    >
+      <Chessboard />
+    </div>
+  )
+}
+
+export function BoardView({ parHit, ...options }: BoardOptions & { parHit: boolean }) {
+  return (
+    <BoardProvider {...options}>
+      <BoardSurface parHit={parHit} />
+    </BoardProvider>
+  )
+}
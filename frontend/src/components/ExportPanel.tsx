@@ -0,0 +1,54 @@
+import { useState } from 'react'
+import { serializePuzzle } from '../puzzleFormat'
+import type { PuzzleDocument } from '../puzzleFormat'
+import { copyToClipboard, downloadBlob, puzzleLink } from '../share'
+
+type Props = {
+  /** The puzzle with the player's current pieces; they're dropped unless the player keeps them. */
+  document: PuzzleDocument
+  fileName: string
+  onClose: () => void
+}
+
+export function ExportPanel({ document: doc, fileName, onClose }: Props) {
+  const [withPosition, setWithPosition] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const exported = withPosition ? doc : { ...doc, placements: [] }
+  const text = serializePuzzle(exported)
+
+  const copy = async (value: string, what: string) => {
+    const copied = await copyToClipboard(value)
+    setStatus(copied ? `${what} copied` : 'Copy failed — select the text above instead')
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Export puzzle">
+      <div className="modal stats-modal">
+        <h2>Export puzzle</h2>
+        <label className="checkbox-row">
+          <input
+            type="checkbox"
+            checked={withPosition}
+            disabled={doc.placements.length === 0}
+            onChange={(e) => setWithPosition(e.target.checked)}
+          />
+          Include my pieces
+        </label>
+        <pre className="share-preview puzzle-text">{text}</pre>
+        <div className="modal-actions">
+          <button onClick={() => copy(text, 'Puzzle')}>Copy</button>
+          <button onClick={() => downloadBlob(new Blob([text], { type: 'text/plain' }), fileName)}>
+            Download
+          </button>
+          <button onClick={() => copy(puzzleLink(exported), 'Link')}>Copy link</button>
+        </div>
+        {status && (
+          <p className="hint-inline" role="status">
+            {status}
+          </p>
+        )}
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { parsePuzzle, PuzzleFormatError } from '../puzzleFormat'
+import type { PuzzleDocument } from '../puzzleFormat'
+
+type Props = {
+  onImport: (doc: PuzzleDocument) => void
+  onClose: () => void
+}
+
+export function ImportPanel({ onImport, onClose }: Props) {
+  const [text, setText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setText(await file.text())
+    setError(null)
+  }
+
+  const handleImport = () => {
+    try {
+      onImport(parsePuzzle(text))
+    } catch (err) {
+      if (!(err instanceof PuzzleFormatError)) throw err
+      setError(err.message)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Import puzzle">
+      <div className="modal stats-modal">
+        <h2>Import puzzle</h2>
+        <textarea
+          className="puzzle-text"
+          aria-label="Puzzle text"
+          placeholder="Paste a puzzle (it starts with “los 1”)"
+          rows={8}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            setError(null)
+          }}
+        />
+        <input type="file" accept=".txt,.los,text/plain" aria-label="Puzzle file" onChange={handleFile} />
+        {error && (
+          <p className="hint-inline error" role="alert">
+            {error}
+          </p>
+        )}
+        <div className="modal-actions">
+          <button onClick={handleImport} disabled={!text.trim()}>
+            Play it
+          </button>
+          <button onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  )
+}
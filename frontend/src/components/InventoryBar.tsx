@@ -1,15 +1,16 @@
-import { defaultPieces } from 'react-chessboard'
+import { SparePiece } from 'react-chessboard'
 import type { Inventory, PieceType } from '../engine'
-import { pieceToFen } from '../pieces'
+import { pieceLabel, pieceToFen } from '../pieces'
 
 type Props = {
   inventory: Inventory
   inventoryList: PieceType[]
-  placedCounts: Record<PieceType, number>
+  placedCounts: Partial<Record<PieceType, number>>
   selected: PieceType
   onSelect: (type: PieceType) => void
 }
 
+/** Chips can be dragged onto the board, so render this inside the board's `BoardProvider`. */
 export function InventoryBar({
   inventory,
   inventoryList,
@@ -22,21 +23,23 @@ export function InventoryBar({
   return (
     <section className="controls">
       <div className="inventory">
-        {inventoryList.map((type) => {
+        {inventoryList.map((type, index) => {
           const remaining = remainingOf(type)
           const total = inventory[type] ?? 0
           const placed = placedCounts[type] ?? 0
-          const Comp = defaultPieces[pieceToFen[type]]
           const done = placed >= total && total > 0
           return (
             <button
               key={type}
               className={`piece-chip ${selected === type ? 'selected' : ''}`}
               onClick={() => onSelect(type)}
-              aria-label={type}
+              aria-label={`${pieceLabel[type]}, ${placed} of ${total} placed`}
+              aria-pressed={selected === type}
+              // Number keys pick the first nine types.
+              title={index < 9 ? `${pieceLabel[type]} (${index + 1})` : pieceLabel[type]}
             >
               <span className="piece-icon">
-                <Comp svgStyle={{ width: 48, height: 48 }} />
+                <SparePiece pieceType={pieceToFen[type]} />
               </span>
               <span className={`count ${done ? 'done' : remaining <= 0 ? 'out' : ''}`}>
                 {placed}/{total}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { formatSeedDate, formatTime } from '../format'
+import {
+  fetchLeaderboard,
+  LeaderboardError,
+  loadPlayerName,
+  savePlayerName,
+  submitResult,
+} from '../leaderboardClient'
+import { MAX_NAME_LENGTH } from '../leaderboardProtocol'
+import type { Leaderboard, LeaderboardSubmission } from '../leaderboardProtocol'
+
+type Props = {
+  seed: string
+  /** The player's solve, once there is one to submit. */
+  submission: Omit<LeaderboardSubmission, 'name'> | null
+  onClose: () => void
+}
+
+type BoardState =
+  | { kind: 'loading' }
+  | { kind: 'offline'; message: string }
+  | { kind: 'ready'; leaderboard: Leaderboard }
+
+const OFFLINE_MESSAGE = 'The leaderboard is offline right now. Your stats are still saved on this device.'
+
+export function LeaderboardPanel({ seed, submission, onClose }: Props) {
+  const [state, setState] = useState<BoardState>({ kind: 'loading' })
+  const [name, setName] = useState(loadPlayerName)
+  const [submitting, setSubmitting] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [rank, setRank] = useState<number | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    fetchLeaderboard(seed, controller.signal).then(
+      (leaderboard) => setState({ kind: 'ready', leaderboard }),
+      (err: unknown) => {
+        if (controller.signal.aborted) return
+        const rejected = err instanceof LeaderboardError && err.reason === 'rejected'
+        setState({ kind: 'offline', message: rejected ? err.message : OFFLINE_MESSAGE })
+      },
+    )
+    return () => controller.abort()
+  }, [seed])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    const trimmed = name.trim()
+    if (!submission || !trimmed || submitting) return
+    savePlayerName(trimmed)
+    setSubmitting(true)
+    setNotice(null)
+    try {
+      const response = await submitResult({ ...submission, name: trimmed })
+      setState({ kind: 'ready', leaderboard: response.leaderboard })
+      setRank(response.rank)
+    } catch (err) {
+      setNotice(
+        err instanceof LeaderboardError && err.reason === 'rejected'
+          ? `Not accepted: ${err.message}`
+          : OFFLINE_MESSAGE,
+      )
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const leaderboard = state.kind === 'ready' ? state.leaderboard : null
+  const scored = leaderboard?.objective === 'maxScore'
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Leaderboard">
+      <div className="modal stats-modal">
+        <h2>Leaderboard</h2>
+        <p className="hint">{formatSeedDate(seed)}</p>
+        {state.kind === 'loading' && <p className="hint">Loading…</p>}
+        {state.kind === 'offline' && <p className="hint">{state.message}</p>}
+        {leaderboard &&
+          (leaderboard.entries.length === 0 ? (
+            <p className="hint">No verified solves yet.</p>
+          ) : (
+            <ol className="leaderboard-list">
+              {leaderboard.entries.map((entry, index) => (
+                <li key={entry.name} className={rank === index + 1 ? 'current' : undefined}>
+                  <span className="leaderboard-rank">{index + 1}</span>
+                  <span className="leaderboard-name">{entry.name}</span>
+                  {scored && <span className="leaderboard-score">{entry.score}</span>}
+                  <span className="leaderboard-time">{formatTime(entry.timeMs)}</span>
+                </li>
+              ))}
+            </ol>
+          ))}
+        {submission && state.kind !== 'offline' && rank === null && (
+          <form className="leaderboard-form" onSubmit={handleSubmit}>
+            <input
+              aria-label="Your name"
+              placeholder="Your name"
+              value={name}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <button type="submit" disabled={submitting || !name.trim()}>
+              {submitting ? 'Submitting…' : 'Submit'}
+            </button>
+          </form>
+        )}
+        {rank !== null && <p className="hint">Verified and ranked #{rank}.</p>}
+        {notice && <p className="hint">{notice}</p>}
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from 'react'
+import { boardDimensions, boardSquareStyles, piecePositions } from '../boardStyles'
+import {
+  blankDocument,
+  MIN_EDITOR_SIZE,
+  resizeDocument,
+  setPieceCount,
+  toggleCell,
+  toggleLocked,
+} from '../editor'
+import type { EditorTool } from '../editor'
+import { isLegalPlacement, MAX_BOARD_SIZE } from '../engine'
+import type { PiecePlacement, PieceType, PuzzleCheck, PuzzleObjective } from '../engine'
+import { EngineError, requestPuzzleCheck } from '../engineClient'
+import type { EngineTask } from '../engineClient'
+import { pieceIcons } from '../pieceIcons'
+import { PIECE_TYPES, pieceLabel, pieceToFen } from '../pieces'
+import type { PuzzleDocument } from '../puzzleFormat'
+import { RULE_VARIANT_IDS, RULE_VARIANTS } from '../rules'
+import type { RuleVariant } from '../rules'
+import { copyToClipboard, puzzleLink } from '../share'
+import { parseSquare } from '../squares'
+import { BoardView } from './BoardView'
+
+type Props = {
+  initial: PuzzleDocument
+  onPlay: (doc: PuzzleDocument) => void
+  onClose: () => void
+}
+
+type CheckOutcome = { kind: 'done'; check: PuzzleCheck } | { kind: 'timeout' } | { kind: 'failed' }
+
+// Every edit restarts the check, so wait for a pause in clicking before starting one.
+const CHECK_DEBOUNCE_MS = 300
+const CHECK_BUDGET_MS = 5_000
+const BOARD_SIZE = 420
+const SIZES = Array.from({ length: MAX_BOARD_SIZE - MIN_EDITOR_SIZE + 1 }, (_, i) => MIN_EDITOR_SIZE + i)
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'blocked', label: 'Block' },
+  { tool: 'void', label: 'Cut out' },
+  { tool: 'lock', label: 'Lock piece' },
+]
+
+function describeCheck(doc: PuzzleDocument, outcome: CheckOutcome | null): string {
+  if (!outcome) return 'Checking…'
+  if (outcome.kind === 'timeout') return `Too complex to check within ${CHECK_BUDGET_MS / 1000}s.`
+  if (outcome.kind === 'failed') return 'The check failed.'
+  const { solution, rating, par } = outcome.check
+  if (!solution) {
+    return doc.objective === 'maxScore' ? 'No piece fits.' : 'No solution: these pieces can’t all fit.'
+  }
+  const label = rating ? ` · ${rating.label}` : ''
+  if (par) return `Par ${par.score}${par.proven ? '' : ' (best found)'}${label}`
+  const count = rating ? `${rating.solutions}${rating.solutionsCapped ? '+' : ''}` : '?'
+  return `Solvable · ${count} solution${rating?.solutions === 1 ? '' : 's'}${label}`
+}
+
+export function PuzzleEditor({ initial, onPlay, onClose }: Props) {
+  const [doc, setDoc] = useState(initial)
+  const [tool, setTool] = useState<EditorTool>('blocked')
+  const [lockType, setLockType] = useState<PieceType>('queen')
+  const [showSolution, setShowSolution] = useState(false)
+  const [checked, setChecked] = useState<{ doc: PuzzleDocument; outcome: CheckOutcome } | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    let task: EngineTask<PuzzleCheck> | null = null
+    const id = window.setTimeout(() => {
+      const { board, inventory, locked, objective, rules } = doc
+      task = requestPuzzleCheck(board, inventory, locked, objective, rules, CHECK_BUDGET_MS)
+      task.promise.then(
+        (check) => setChecked({ doc, outcome: { kind: 'done', check } }),
+        (err: unknown) => {
+          if (!(err instanceof EngineError)) return setChecked({ doc, outcome: { kind: 'failed' } })
+          if (err.reason === 'cancelled') return
+          setChecked({ doc, outcome: { kind: err.reason === 'timeout' ? 'timeout' : 'failed' } })
+        },
+      )
+    }, CHECK_DEBOUNCE_MS)
+    return () => {
+      window.clearTimeout(id)
+      task?.cancel()
+    }
+  }, [doc])
+
+  // A result only counts for the exact document it was computed from.
+  const outcome = checked?.doc === doc ? checked.outcome : null
+  const check = outcome?.kind === 'done' ? outcome.check : null
+  const playable: PuzzleDocument | null = check?.solution
+    ? { ...doc, placements: [], par: check.par?.score ?? null }
+    : null
+
+  const { board, locked } = doc
+  const shown = showSolution && check?.solution ? check.solution : locked
+  const pieces = useMemo(() => piecePositions(board, shown), [board, shown])
+  const squareStyles = useMemo(() => boardSquareStyles(board, locked, new Set()), [board, locked])
+  const boardStyle = {
+    ...boardDimensions(board, Math.min(BOARD_SIZE, window.innerWidth * 0.9)),
+    border: `3px solid ${playable ? '#22c55e' : '#000'}`,
+    borderRadius: '8px',
+    boxSizing: 'border-box' as const,
+  }
+
+  const edit = (next: PuzzleDocument) => {
+    setDoc(next)
+    setNotice(null)
+  }
+
+  // Locked pieces that attack each other under the new rules have to go.
+  const setRule = (variant: RuleVariant, on: boolean) => {
+    const rules = { ...doc.rules, [variant]: on }
+    const locked: PiecePlacement[] = []
+    for (const piece of doc.locked) {
+      if (isLegalPlacement(board, [...locked, piece], rules)) locked.push(piece)
+    }
+    edit({ ...doc, rules, locked })
+  }
+
+  const handleSquareClick = (square: string) => {
+    const coord = parseSquare(board, square)
+    if (!coord) return
+    if (tool !== 'lock') {
+      edit(toggleCell(doc, coord.row, coord.col, tool))
+      return
+    }
+    const next = toggleLocked(doc, coord.row, coord.col, lockType)
+    if (next) edit(next)
+    else setNotice(`A ${pieceLabel[lockType]} can’t be locked there.`)
+  }
+
+  const handleCopyLink = async () => {
+    if (!playable) return
+    const copied = await copyToClipboard(puzzleLink(playable))
+    setNotice(copied ? 'Link copied' : 'Copy failed')
+  }
+
+  return (
+    <div className="page editor">
+      <header className="top-bar">
+        <div className="timer-stack">
+          <div className="countdown">
+            <span className="countdown-label">Editor</span>
+            <span className="countdown-value">Custom puzzle</span>
+          </div>
+        </div>
+        <div className="top-actions">
+          <button className="secondary-btn" onClick={() => edit(blankDocument(board.width, board.height))}>
+            New
+          </button>
+          <button className="secondary-btn" onClick={onClose}>
+            Back to game
+          </button>
+        </div>
+      </header>
+
+      <section className="editor-controls">
+        <label>
+          Width{' '}
+          <select
+            value={board.width}
+            onChange={(e) => edit(resizeDocument(doc, Number(e.target.value), board.height))}
+          >
+            {SIZES.map((n) => (
+              <option key={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Height{' '}
+          <select
+            value={board.height}
+            onChange={(e) => edit(resizeDocument(doc, board.width, Number(e.target.value)))}
+          >
+            {SIZES.map((n) => (
+              <option key={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Goal{' '}
+          <select
+            value={doc.objective}
+            onChange={(e) => edit({ ...doc, objective: e.target.value as PuzzleObjective })}
+          >
+            <option value="complete">Place every piece</option>
+            <option value="maxScore">Highest score</option>
+          </select>
+        </label>
+      </section>
+
+      <section className="editor-controls">
+        {RULE_VARIANT_IDS.map((variant) => (
+          <label key={variant} title={RULE_VARIANTS[variant].description}>
+            <input
+              type="checkbox"
+              checked={doc.rules[variant]}
+              onChange={(e) => setRule(variant, e.target.checked)}
+            />{' '}
+            {RULE_VARIANTS[variant].label}
+          </label>
+        ))}
+      </section>
+
+      <section className="editor-controls" role="radiogroup" aria-label="Tool">
+        {TOOLS.map(({ tool: option, label }) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={tool === option}
+            className={`secondary-btn ${tool === option ? 'selected' : ''}`}
+            onClick={() => setTool(option)}
+          >
+            {label}
+          </button>
+        ))}
+      </section>
+
+      <section className="editor-inventory">
+        {PIECE_TYPES.map((type) => {
+          const Icon = pieceIcons[pieceToFen[type]]
+          const count = doc.inventory[type] ?? 0
+          const picked = tool === 'lock' && lockType === type
+          return (
+            <div key={type} className={`editor-piece ${picked ? 'selected' : ''}`}>
+              <button
+                className="piece-icon"
+                onClick={() => {
+                  setTool('lock')
+                  setLockType(type)
+                }}
+                aria-label={`Lock a ${pieceLabel[type]}`}
+                title={`${pieceLabel[type]}: click to lock one on the board`}
+              >
+                <Icon svgStyle={{ width: 36, height: 36 }} />
+              </button>
+              <button
+                onClick={() => edit(setPieceCount(doc, type, count - 1))}
+                disabled={count === 0}
+                aria-label={`One fewer ${pieceLabel[type]}`}
+              >
+                −
+              </button>
+              <span className="count">{count}</span>
+              <button
+                onClick={() => edit(setPieceCount(doc, type, count + 1))}
+                aria-label={`One more ${pieceLabel[type]}`}
+              >
+                +
+              </button>
+            </div>
+          )
+        })}
+      </section>
+
+      <section className="board-wrap">
+        <div className="board-card">
+          <BoardView
+            id="editor"
+            boardStyle={boardStyle}
+            rows={board.height}
+            columns={board.width}
+            pieces={pieces}
+            squareStyles={squareStyles}
+            parHit={false}
+            onSquareClick={handleSquareClick}
+          />
+          <p className="hint-inline" role="status">
+            {describeCheck(doc, outcome)}
+          </p>
+          {notice && <p className="hint-inline">{notice}</p>}
+        </div>
+      </section>
+
+      <div className="file-actions">
+        <button
+          className="secondary-btn"
+          onClick={() => setShowSolution(!showSolution)}
+          disabled={!check?.solution}
+        >
+          {showSolution ? 'Hide solution' : 'Show solution'}
+        </button>
+        <button className="secondary-btn" onClick={handleCopyLink} disabled={!playable}>
+          Copy link
+        </button>
+        <button onClick={() => playable && onPlay(playable)} disabled={!playable}>
+          Play it
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react'
+import { boardDimensions, boardSquareStyles, piecePositions } from '../boardStyles'
+import type { Board, PiecePlacement } from '../engine'
+import { formatTime } from '../format'
+import { pieceLabel } from '../pieces'
+import { buildFrames, describeStep } from '../replay'
+import type { ReplayStep } from '../replay'
+import type { AttackRules } from '../rules'
+import { BoardView } from './BoardView'
+
+type Props = {
+  board: Board
+  locked: PiecePlacement[]
+  /** The player's pieces when the attempt began. */
+  start: PiecePlacement[]
+  rules: AttackRules
+  steps: ReplayStep[]
+  onClose: () => void
+}
+
+const BOARD_SIZE = 300
+// Real pauses are squeezed into this range so long thinks don't stall playback.
+const MIN_STEP_MS = 250
+const MAX_STEP_MS = 1200
+
+export function ReplayViewer({ board, locked, start, rules, steps, onClose }: Props) {
+  const frames = useMemo(
+    () => buildFrames(board, locked, start, steps, rules),
+    [board, locked, start, steps, rules],
+  )
+  const [index, setIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const last = frames.length - 1
+  const frame = frames[Math.min(index, last)]
+
+  useEffect(() => {
+    if (!playing || index >= last) return
+    const wait = Math.min(MAX_STEP_MS, Math.max(MIN_STEP_MS, frames[index + 1].t - frames[index].t))
+    const id = window.setTimeout(() => {
+      setIndex(index + 1)
+      if (index + 1 >= last) setPlaying(false)
+    }, wait)
+    return () => window.clearTimeout(id)
+  }, [playing, index, last, frames])
+
+  // The moments a conflict appeared, rather than every frame it lasted for.
+  const conflictMarks = useMemo(
+    () => frames.flatMap((f, i) => (i > 0 && f.conflicts.size > frames[i - 1].conflicts.size ? [i] : [])),
+    [frames],
+  )
+
+  const pieces = useMemo(
+    () => piecePositions(board, [...locked, ...frame.placements]),
+    [board, locked, frame],
+  )
+  const squareStyles = useMemo(
+    () => boardSquareStyles(board, locked, frame.conflicts),
+    [board, locked, frame],
+  )
+  const boardStyle = {
+    ...boardDimensions(board, BOARD_SIZE),
+    border: '3px solid #000',
+    borderRadius: '8px',
+    boxSizing: 'border-box' as const,
+  }
+
+  const seek = (next: number) => {
+    setPlaying(false)
+    setIndex(Math.max(0, Math.min(last, next)))
+  }
+  const nextConflict = conflictMarks.find((i) => i > index)
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Replay">
+      <div className="modal replay-modal">
+        <h2>Replay</h2>
+        <BoardView
+          id="replay"
+          boardStyle={boardStyle}
+          rows={board.height}
+          columns={board.width}
+          pieces={pieces}
+          squareStyles={squareStyles}
+          parHit={false}
+        />
+        <p className={`replay-caption ${frame.conflicts.size > 0 ? 'conflict' : ''}`}>
+          <span className="replay-time">{formatTime(frame.t)}</span>
+          {describeStep(board, frame.step)}
+          {frame.conflicts.size > 0 && ` · ${frame.conflicts.size} pieces in conflict`}
+        </p>
+        <div className="replay-scrubber">
+          <input
+            type="range"
+            min={0}
+            max={last}
+            value={index}
+            aria-label="Replay position"
+            onChange={(e) => seek(Number(e.target.value))}
+          />
+          <div className="replay-marks" aria-hidden="true">
+            {last > 0 &&
+              conflictMarks.map((i) => <span key={i} style={{ left: `${(i / last) * 100}%` }} />)}
+          </div>
+        </div>
+        <div className="modal-actions">
+          <button onClick={() => seek(0)} disabled={index === 0} aria-label="Back to start">
+            ⏮
+          </button>
+          <button onClick={() => seek(index - 1)} disabled={index === 0} aria-label="Step back">
+            ‹
+          </button>
+          <button
+            onClick={() => {
+              if (index >= last) setIndex(0)
+              setPlaying(!playing)
+            }}
+            disabled={last === 0}
+            aria-label={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? '⏸' : '▶'}
+          </button>
+          <button onClick={() => seek(index + 1)} disabled={index >= last} aria-label="Step forward">
+            ›
+          </button>
+          <button
+            onClick={() => nextConflict !== undefined && seek(nextConflict)}
+            disabled={nextConflict === undefined}
+          >
+            Next conflict
+          </button>
+        </div>
+        <p className="hint">
+          {steps.length} actions
+          {frame.selected && ` · holding ${pieceLabel[frame.selected]}`}
+        </p>
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import type { ScorePar } from '../engine'
+
+type Props = {
+  score: number
+  par: ScorePar
+}
+
+export function ScoreDisplay({ score, par }: Props) {
+  return (
+    <div
+      className="score-inline"
+      title={par.proven ? 'Par is the best possible score' : 'Par is the best score the engine found'}
+    >
+      <span className="score-text">{score}</span>
+      <span className="score-par">
+        / {par.score} par{par.proven ? '' : '+'}
+      </span>
+    </div>
+  )
+}
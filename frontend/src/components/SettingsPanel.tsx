@@ -0,0 +1,32 @@
+import type { Settings } from '../settings'
+
+type Props = {
+  settings: Settings
+  onChange: (settings: Settings) => void
+  onClose: () => void
+}
+
+export function SettingsPanel({ settings, onChange, onClose }: Props) {
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Settings">
+      <div className="modal settings-modal">
+        <h2>Settings</h2>
+        <label className="setting">
+          <input
+            type="checkbox"
+            checked={settings.overlays}
+            onChange={(e) => onChange({ ...settings, overlays: e.target.checked })}
+          />
+          <span>
+            <strong>Attack overlays</strong>
+            <span className="hint">
+              Shade squares your pieces attack, dot where the selected piece fits, and preview a
+              piece’s lines on hover.
+            </span>
+          </span>
+        </label>
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { useMemo, useState } from 'react'
+import { formatSeedDate } from '../format'
+import { buildShareText, copyToClipboard, downloadBlob, renderShareImage } from '../share'
+import type { ShareResult } from '../share'
+
+type Props = {
+  result: ShareResult
+}
+
+export function SharePanel({ result }: Props) {
+  const [status, setStatus] = useState<string | null>(null)
+  const text = useMemo(() => buildShareText(result), [result])
+
+  const handleCopy = async () => {
+    const copied = await copyToClipboard(text)
+    setStatus(copied ? 'Copied to clipboard' : 'Copy failed — select the text above instead')
+  }
+
+  const handleDownload = async () => {
+    const blob = await renderShareImage(result)
+    if (!blob) {
+      setStatus('Image export is not supported in this browser')
+      return
+    }
+    downloadBlob(blob, `line-of-sight-${formatSeedDate(result.seed)}.png`)
+    setStatus(null)
+  }
+
+  return (
+    <div className="share-panel">
+      <pre className="share-preview">{text}</pre>
+      <div className="modal-actions">
+        <button onClick={handleCopy}>Copy result</button>
+        <button onClick={handleDownload}>Download image</button>
+      </div>
+      {status && (
+        <p className="hint-inline" role="status">
+          {status}
+        </p>
+      )}
+    </div>
+  )
+}
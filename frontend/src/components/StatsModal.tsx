@@ -0,0 +1,62 @@
+import { formatTime } from '../format'
+import type { StatsSummary } from '../stats'
+
+type Props = {
+  summary: StatsSummary
+  onClose: () => void
+}
+
+export function StatsModal({ summary, onClose }: Props) {
+  const peak = Math.max(1, ...summary.distribution.map((b) => b.count))
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-label="Statistics">
+      <div className="modal stats-modal">
+        <h2>Statistics</h2>
+        <div className="scorecard">
+          <div>
+            <span className="label">Solved</span>
+            <strong className="metric">{summary.solved}</strong>
+          </div>
+          <div>
+            <span className="label">Streak</span>
+            <strong className="metric">{summary.currentStreak}</strong>
+          </div>
+          <div>
+            <span className="label">Max streak</span>
+            <strong className="metric">{summary.maxStreak}</strong>
+          </div>
+          <div>
+            <span className="label">Archive</span>
+            <strong className="metric">{summary.archiveSolved}</strong>
+          </div>
+          <div>
+            <span className="label">Best</span>
+            <strong className="metric good">
+              {summary.bestMs === null ? '–' : formatTime(summary.bestMs)}
+            </strong>
+          </div>
+          <div>
+            <span className="label">Average</span>
+            <strong className="metric">
+              {summary.averageMs === null ? '–' : formatTime(summary.averageMs)}
+            </strong>
+          </div>
+        </div>
+        <h3 className="stats-subhead">Solve times</h3>
+        <ul className="distribution">
+          {summary.distribution.map((bucket) => (
+            <li key={bucket.label}>
+              <span className="distribution-label">{bucket.label}</span>
+              <span className="distribution-bar">
+                <span style={{ width: `${(bucket.count / peak) * 100}%` }} />
+              </span>
+              <span className="distribution-count">{bucket.count}</span>
+            </li>
+          ))}
+        </ul>
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type { Arrow } from 'react-chessboard'
+import type { AttackRoute, Board, Conflict, PiecePlacement } from './engine'
+import { pieceLabel } from './pieces'
+import { squareName } from './squares'
+
+const ONE_WAY_ARROW = 'rgba(220,38,38,0.85)'
+const MUTUAL_ARROW = 'rgba(124,58,237,0.85)'
+
+function describePiece(board: Board, p: PiecePlacement): string {
+  return `${pieceLabel[p.type]} ${squareName(board, p.row, p.col)}`
+}
+
+function describeRoute(attacker: PiecePlacement, { kind, step: [dr, dc] }: AttackRoute): string {
+  const rows = Math.abs(dr)
+  const cols = Math.abs(dc)
+  if (kind === 'line') {
+    if (cols === 0) return 'along the file'
+    if (rows === 0) return 'along the rank'
+    if (rows === cols) return 'along the diagonal'
+    return 'along a knight’s line'
+  }
+  // Wide kings reach knight-shaped squares too, but that is still a king's step, not a jump.
+  if (attacker.type !== 'king' && rows * cols === 2) return 'with a knight’s jump'
+  if (rows * cols === 3) return 'with a camel’s jump'
+  if (Math.max(rows, cols) > 1) return 'from two squares away'
+  return rows === cols ? 'diagonally' : 'from the next square'
+}
+
+/** For example "Rook c3 attacks Bishop c7 along the file". */
+export function describeConflict(board: Board, { attacker, victim, route, mutual }: Conflict): string {
+  const how = describeRoute(attacker, route)
+  return mutual
+    ? `${describePiece(board, attacker)} and ${describePiece(board, victim)} attack each other ${how}`
+    : `${describePiece(board, attacker)} attacks ${describePiece(board, victim)} ${how}`
+}
+
+/** One arrow per pair, from attacker to victim; pairs that attack each other get their own colour. */
+export function conflictArrows(board: Board, conflicts: Conflict[]): Arrow[] {
+  return conflicts.map(({ attacker, victim, mutual }) => ({
+    startSquare: squareName(board, attacker.row, attacker.col),
+    endSquare: squareName(board, victim.row, victim.col),
+    color: mutual ? MUTUAL_ARROW : ONE_WAY_ARROW,
+  }))
+}
@@ -0,0 +1,74 @@
+import { isLegalPlacement } from './engine'
+import type { CellState, PiecePlacement, PieceType } from './engine'
+import type { PuzzleDocument } from './puzzleFormat'
+import { STANDARD_RULES } from './rules'
+
+export type EditorTool = 'blocked' | 'void' | 'lock'
+
+export const MIN_EDITOR_SIZE = 3
+
+const at = (row: number, col: number) => (p: PiecePlacement) => p.row === row && p.col === col
+
+export function blankDocument(width = 8, height = 8): PuzzleDocument {
+  return {
+    board: {
+      width,
+      height,
+      cells: Array.from({ length: height }, (): CellState[] => Array(width).fill('valid')),
+      seed: '',
+    },
+    inventory: { queen: 1, rook: 2, bishop: 2, knight: 2 },
+    locked: [],
+    placements: [],
+    variant: null,
+    objective: 'complete',
+    par: null,
+    rules: STANDARD_RULES,
+  }
+}
+
+/** Keeps the top-left corner; new squares start valid and pieces that fall off are dropped. */
+export function resizeDocument(doc: PuzzleDocument, width: number, height: number): PuzzleDocument {
+  const cells = Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col): CellState => doc.board.cells[row]?.[col] ?? 'valid'),
+  )
+  return {
+    ...doc,
+    board: { ...doc.board, width, height, cells },
+    locked: doc.locked.filter((p) => p.row < height && p.col < width),
+  }
+}
+
+/** Paints `cell` onto a square, or back to valid if it already was one; a locked piece there goes. */
+export function toggleCell(doc: PuzzleDocument, row: number, col: number, cell: CellState): PuzzleDocument {
+  const cells = doc.board.cells.map((rowCells) => [...rowCells])
+  cells[row][col] = cells[row][col] === cell ? 'valid' : cell
+  return { ...doc, board: { ...doc.board, cells }, locked: doc.locked.filter((p) => !at(row, col)(p)) }
+}
+
+/**
+ * Removes the locked piece on a square, or locks one of `type` there. The inventory grows to
+ * cover it if needed. Returns null when the square can't hold it or it would attack another lock.
+ */
+export function toggleLocked(
+  doc: PuzzleDocument,
+  row: number,
+  col: number,
+  type: PieceType,
+): PuzzleDocument | null {
+  if (doc.locked.some(at(row, col))) return { ...doc, locked: doc.locked.filter((p) => !at(row, col)(p)) }
+  if (doc.board.cells[row][col] !== 'valid') return null
+  const locked = [...doc.locked, { row, col, type }]
+  if (!isLegalPlacement(doc.board, locked, doc.rules)) return null
+  const needed = locked.filter((p) => p.type === type).length
+  const inventory = { ...doc.inventory, [type]: Math.max(doc.inventory[type] ?? 0, needed) }
+  return { ...doc, locked, inventory }
+}
+
+/** Never drops below the pieces of that type already locked on the board. */
+export function setPieceCount(doc: PuzzleDocument, type: PieceType, count: number): PuzzleDocument {
+  const floor = doc.locked.filter((p) => p.type === type).length
+  const inventory = { ...doc.inventory, [type]: Math.max(floor, count) }
+  if (inventory[type] === 0) delete inventory[type]
+  return { ...doc, inventory }
+}
@@ -1,4 +1,10 @@
-export type CellState = 'valid' | 'blocked'
+import { PIECE_TYPES, pieceValue } from './pieces'
+import type { PieceType, Vector } from './pieces'
+import { activeVariants, attackPattern, STANDARD_RULES } from './rules'
+import type { AttackRules } from './rules'
+
+/** `void` cells are outside the board's shape: nothing stands there and lines stop at them, as at an edge. */
+export type CellState = 'valid' | 'blocked' | 'void'
 
 export type Board = {
   width: number
@@ -7,7 +13,7 @@ export type Board = {
   seed: string
 }
 
-export type PieceType = 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn' | 'king'
+export type { PieceType }
 
 export type PiecePlacement = {
   row: number
@@ -17,16 +23,20 @@ export type PiecePlacement = {
 
 export type Inventory = Partial<Record<PieceType, number>>
 
-export const PIECE_VALUES: Record<PieceType, number> = {
-  queen: 9,
-  rook: 5,
-  bishop: 3,
-  knight: 3,
-  pawn: 1,
-  king: 0,
+export const PIECE_VALUES: Record<PieceType, number> = pieceValue
+
+export type BoardShape = 'rectangle' | 'cross' | 'diamond' | 'donut'
+
+export type BoardLayout = {
+  width: number
+  height: number
+  shape: BoardShape
 }
 
-const DEFAULT_SIZE = 8
+export const DEFAULT_LAYOUT: BoardLayout = { width: 8, height: 8, shape: 'rectangle' }
+/** Square names use one file letter, so boards stay within a-z. */
+export const MAX_BOARD_SIZE = 26
+
 const DEFAULT_BLOCK_RATIO = 0.28
 const MIN_VALID_RATIO = 0.45
 
@@ -37,7 +47,7 @@ export function makeDailySeed(date = new Date()): string {
   return `${year}${month}${day}`
 }
 
-function hashSeed(seed: string): number {
+export function hashSeed(seed: string): number {
   // Simple deterministic hash to feed the RNG.
   let h = 1779033703 ^ seed.length
   for (let i = 0; i < seed.length; i++) {
@@ -56,17 +66,47 @@ function mulberry32(a: number): () => number {
   }
 }
 
-export function generateBoard(seed: string, size = DEFAULT_SIZE, blockRatio = DEFAULT_BLOCK_RATIO): Board {
+function insideShape(layout: BoardLayout, row: number, col: number): boolean {
+  const { width, height, shape } = layout
+  // Offsets from the centre, in units of half the board: the edges sit at 1.
+  const dy = Math.abs(row - (height - 1) / 2) / (height / 2)
+  const dx = Math.abs(col - (width - 1) / 2) / (width / 2)
+  switch (shape) {
+    case 'rectangle':
+      return true
+    case 'cross':
+      return dx < 1 / 3 || dy < 1 / 3
+    case 'diamond':
+      return dx + dy <= 1
+    case 'donut':
+      return dx >= 1 / 3 || dy >= 1 / 3
+  }
+}
+
+export function generateBoard(
+  seed: string,
+  layout: BoardLayout = DEFAULT_LAYOUT,
+  blockRatio = DEFAULT_BLOCK_RATIO,
+): Board {
+  const { width, height } = layout
+  if (width < 1 || height < 1 || width > MAX_BOARD_SIZE || height > MAX_BOARD_SIZE) {
+    throw new RangeError(`Board must be between 1x1 and ${MAX_BOARD_SIZE}x${MAX_BOARD_SIZE}`)
+  }
   const rng = mulberry32(hashSeed(seed))
   const cells: CellState[][] = []
   let validCount = 0
-  const total = size * size
+  let total = 0
 
-  for (let row = 0; row < size; row++) {
+  for (let row = 0; row < height; row++) {
     const rowCells: CellState[] = []
-    for (let col = 0; col < size; col++) {
+    for (let col = 0; col < width; col++) {
+      if (!insideShape(layout, row, col)) {
+        rowCells.push('void')
+        continue
+      }
       const cell: CellState = rng() < blockRatio ? 'blocked' : 'valid'
       rowCells.push(cell)
+      total++
       if (cell === 'valid') validCount++
     }
     cells.push(rowCells)
@@ -75,8 +115,8 @@ export function generateBoard(seed: string, size = DEFAULT_SIZE, blockRatio = DE
   const minValid = Math.ceil(total * MIN_VALID_RATIO)
   if (validCount < minValid) {
     // Flip the earliest blocked cells to valid to ensure playability while staying deterministic.
-    for (let row = 0; row < size && validCount < minValid; row++) {
-      for (let col = 0; col < size && validCount < minValid; col++) {
+    for (let row = 0; row < height && validCount < minValid; row++) {
+      for (let col = 0; col < width && validCount < minValid; col++) {
         if (cells[row][col] === 'blocked') {
           cells[row][col] = 'valid'
           validCount++
@@ -85,7 +125,7 @@ export function generateBoard(seed: string, size = DEFAULT_SIZE, blockRatio = DE
     }
   }
 
-  return { width: size, height: size, cells, seed }
+  return { width, height, cells, seed }
 }
 
 export function isValidSquare(board: Board, row: number, col: number): boolean {
@@ -98,114 +138,357 @@ export function isValidSquare(board: Board, row: number, col: number): boolean {
   )
 }
 
-function pathClear(
-  board: Board,
-  from: PiecePlacement,
-  to: PiecePlacement,
-  occupied: Set<string>,
-): boolean {
-  const dr = Math.sign(to.row - from.row)
-  const dc = Math.sign(to.col - from.col)
-  let r = from.row + dr
-  let c = from.col + dc
-  while (r !== to.row || c !== to.col) {
-    if (board.cells[r][c] === 'blocked') return false
-    if (occupied.has(`${r},${c}`)) return false
-    r += dr
-    c += dc
-  }
-  return true
+// Whether a line reaching this cell carries on past it: void cells and the edge always stop it,
+// blocked squares unless they are holes.
+function lineContinues(board: Board, row: number, col: number, rules: AttackRules): boolean {
+  if (row < 0 || col < 0 || row >= board.height || col >= board.width) return false
+  const cell = board.cells[row][col]
+  return cell === 'valid' || (cell === 'blocked' && rules.holes)
+}
+
+/** How an attack reaches its target: along one of a rider's lines, or in a single leap. */
+export type AttackRoute = {
+  kind: 'line' | 'leap'
+  step: Vector
 }
 
-function piecesAttack(
+/**
+ * How `a` attacks `b`, or null if it doesn't. Riders are stopped by the edge, void cells, blocked
+ * squares (unless `rules.holes`) and, unless `rules.xray`, any cell in `occupied`.
+ */
+export function attackRoute(
   board: Board,
   a: PiecePlacement,
   b: PiecePlacement,
   occupied: Set<string>,
-): boolean {
+  rules: AttackRules = STANDARD_RULES,
+): AttackRoute | null {
+  const { riders, leapers } = attackPattern(a.type, rules)
   const dr = b.row - a.row
   const dc = b.col - a.col
-  const adr = Math.abs(dr)
-  const adc = Math.abs(dc)
-
-  switch (a.type) {
-    case 'rook':
-      if (dr === 0 || dc === 0) return pathClear(board, a, b, occupied)
-      return false
-    case 'bishop':
-      if (adr === adc) return pathClear(board, a, b, occupied)
-      return false
-    case 'queen':
-      if (dr === 0 || dc === 0 || adr === adc) return pathClear(board, a, b, occupied)
-      return false
-    case 'knight':
-      return (adr === 2 && adc === 1) || (adr === 1 && adc === 2)
-    case 'king':
-      return adr <= 1 && adc <= 1 && (adr + adc > 0)
-    case 'pawn': {
-      // Pawns attack "up" the board (toward row -1).
-      return dr === -1 && (dc === -1 || dc === 1)
+  const leap = leapers.find(([vr, vc]) => vr === dr && vc === dc)
+  if (leap) return { kind: 'leap', step: leap }
+  const line = riders.find(([vr, vc]) => {
+    for (let r = a.row + vr, c = a.col + vc; lineContinues(board, r, c, rules); r += vr, c += vc) {
+      if (r === b.row && c === b.col) return true
+      if (!rules.xray && occupied.has(`${r},${c}`)) return false
     }
-    default:
-      return false
-  }
+    return false
+  })
+  return line ? { kind: 'line', step: line } : null
+}
+
+export function piecesAttack(
+  board: Board,
+  a: PiecePlacement,
+  b: PiecePlacement,
+  occupied: Set<string>,
+  rules: AttackRules = STANDARD_RULES,
+): boolean {
+  return attackRoute(board, a, b, occupied, rules) !== null
+}
+
+/** One attacking pair. When both attack, `attacker` is whichever was placed first. */
+export type Conflict = {
+  attacker: PiecePlacement
+  victim: PiecePlacement
+  /** How `attacker` reaches `victim`. */
+  route: AttackRoute
+  /** `victim` attacks `attacker` too. */
+  mutual: boolean
 }
 
 export type ConflictResult = {
   positions: Set<string>
   pairCount: number
+  /** Ordered by when the earlier piece of each pair was placed. */
+  conflicts: Conflict[]
 }
 
+export const NO_CONFLICTS: ConflictResult = { positions: new Set(), pairCount: 0, conflicts: [] }
+
 export function evaluateConflicts(
   board: Board,
   placements: PiecePlacement[],
+  rules: AttackRules = STANDARD_RULES,
 ): ConflictResult {
   const occupied = new Set(placements.map((p) => `${p.row},${p.col}`))
   const positions = new Set<string>()
-  let pairCount = 0
+  const conflicts: Conflict[] = []
 
   for (let i = 0; i < placements.length; i++) {
     for (let j = i + 1; j < placements.length; j++) {
       const a = placements[i]
       const b = placements[j]
-      if (piecesAttack(board, a, b, occupied) || piecesAttack(board, b, a, occupied)) {
-        positions.add(`${a.row},${a.col}`)
-        positions.add(`${b.row},${b.col}`)
-        pairCount++
+      const forward = attackRoute(board, a, b, occupied, rules)
+      const backward = attackRoute(board, b, a, occupied, rules)
+      if (forward) {
+        conflicts.push({ attacker: a, victim: b, route: forward, mutual: backward !== null })
+      } else if (backward) {
+        conflicts.push({ attacker: b, victim: a, route: backward, mutual: false })
+      } else {
+        continue
       }
+      positions.add(`${a.row},${a.col}`)
+      positions.add(`${b.row},${b.col}`)
+    }
+  }
+
+  return { positions, pairCount: conflicts.length, conflicts }
+}
+
+const squareKey = (p: { row: number; col: number }) => `${p.row},${p.col}`
+
+/** `row,col` keys of the valid squares `piece` attacks; lines stop at `placements` as in `piecesAttack`. */
+export function attackedSquares(
+  board: Board,
+  piece: PiecePlacement,
+  placements: PiecePlacement[],
+  rules: AttackRules = STANDARD_RULES,
+): Set<string> {
+  const occupied = new Set(placements.map(squareKey))
+  const { riders, leapers } = attackPattern(piece.type, rules)
+  const squares = new Set<string>()
+  for (const [dr, dc] of leapers) {
+    const r = piece.row + dr
+    const c = piece.col + dc
+    if (isValidSquare(board, r, c)) squares.add(`${r},${c}`)
+  }
+  for (const [dr, dc] of riders) {
+    for (let r = piece.row + dr, c = piece.col + dc; lineContinues(board, r, c, rules); r += dr, c += dc) {
+      if (board.cells[r][c] !== 'valid') continue
+      squares.add(`${r},${c}`)
+      if (!rules.xray && occupied.has(`${r},${c}`)) break
+    }
+  }
+  return squares
+}
+
+/** How many of `placements` attack each square, keyed `row,col`; unattacked squares are absent. */
+export function attackCounts(
+  board: Board,
+  placements: PiecePlacement[],
+  rules: AttackRules = STANDARD_RULES,
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const piece of placements) {
+    for (const key of attackedSquares(board, piece, placements, rules)) {
+      counts.set(key, (counts.get(key) ?? 0) + 1)
     }
   }
+  return counts
+}
 
-  return { positions, pairCount }
+/** Empty valid squares where a `type` would neither attack nor be attacked by any of `placements`. */
+export function safeSquares(
+  board: Board,
+  placements: PiecePlacement[],
+  type: PieceType,
+  rules: AttackRules = STANDARD_RULES,
+): Set<string> {
+  const attacked = attackCounts(board, placements, rules)
+  const occupied = new Set(placements.map(squareKey))
+  const safe = new Set<string>()
+  board.cells.forEach((rowCells, row) =>
+    rowCells.forEach((cell, col) => {
+      const key = `${row},${col}`
+      if (cell !== 'valid' || occupied.has(key) || attacked.has(key)) return
+      const reach = attackedSquares(board, { row, col, type }, placements, rules)
+      if (placements.every((p) => !reach.has(squareKey(p)))) safe.add(key)
+    }),
+  )
+  return safe
 }
 
-export function isLegalPlacement(board: Board, placements: PiecePlacement[]): boolean {
-  return evaluateConflicts(board, placements).positions.size === 0
+/**
+ * Placed pieces blocking lines never changes this: a rider that would see through a piece already
+ * attacks that piece. It only changes which pairs `evaluateConflicts` reports. Two pieces on one
+ * square never attack each other there, so a shared square is rejected here instead.
+ */
+export function isLegalPlacement(
+  board: Board,
+  placements: PiecePlacement[],
+  rules: AttackRules = STANDARD_RULES,
+): boolean {
+  if (new Set(placements.map(squareKey)).size !== placements.length) return false
+  return evaluateConflicts(board, placements, rules).positions.size === 0
 }
 
-function buildInventoryArray(inv: Inventory): PieceType[] {
-  const list: PieceType[] = []
-  ;(Object.keys(inv) as PieceType[]).forEach((type) => {
-    const count = inv[type] ?? 0
-    for (let i = 0; i < count; i++) list.push(type)
+export function isSolved(
+  board: Board,
+  inventory: Inventory,
+  placements: PiecePlacement[],
+  rules: AttackRules = STANDARD_RULES,
+): boolean {
+  const counts: Partial<Record<PieceType, number>> = {}
+  placements.forEach((p) => {
+    counts[p.type] = (counts[p.type] ?? 0) + 1
   })
-  return list
+  const types = new Set([...Object.keys(inventory), ...Object.keys(counts)] as PieceType[])
+  for (const type of types) {
+    if ((counts[type] ?? 0) !== (inventory[type] ?? 0)) return false
+  }
+  return isLegalPlacement(board, placements, rules)
 }
 
-export function solveWithInventory(
+export type SearchLimits = {
+  /** Epoch milliseconds after which the search gives up with a SearchTimeoutError. */
+  deadline?: number
+}
+
+export class SearchTimeoutError extends Error {
+  constructor() {
+    super('Search exceeded its time budget')
+    this.name = 'SearchTimeoutError'
+  }
+}
+
+// Checking the clock on every node is measurable, so only look every so often.
+const DEADLINE_CHECK_INTERVAL = 1024
+// Solution counts past this are all "plenty" as far as difficulty is concerned.
+const SOLUTION_COUNT_LIMIT = 10_000
+const COUNT_NODE_LIMIT = 500_000
+// Search effort (nodes to first solution) that maps to the top of the effort scale.
+const EFFORT_CEILING = 30_000
+const SCORE_NODE_LIMIT = 1_000_000
+
+// Strongest first: they prune the most. The sort is stable, so equal values keep registry order.
+const SOLVE_ORDER: PieceType[] = [...PIECE_TYPES].sort((a, b) => pieceValue[b] - pieceValue[a])
+
+type Bitset = Uint32Array
+
+type AttackTables = {
+  squares: number
+  words: number
+  valid: Bitset
+  /** masks[type] at `sq * words`: squares a `type` on `sq` attacks, ignoring other pieces on its lines. */
+  masks: Record<PieceType, Bitset>
+  /** attackers[type] at `sq * words`: squares from which a `type` would attack `sq`. */
+  attackers: Record<PieceType, Bitset>
+  /** True when mirroring files maps every attack mask onto another one. */
+  mirrorSymmetric: boolean
+}
+
+// Per board, keyed by the rule variants in force.
+const tablesCache = new WeakMap<Board, Map<string, AttackTables>>()
+
+function hasBit(set: Bitset, index: number, offset = 0): boolean {
+  return (set[offset + (index >>> 5)] & (1 << (index & 31))) !== 0
+}
+
+function setBit(set: Bitset, index: number, offset = 0): void {
+  set[offset + (index >>> 5)] |= 1 << (index & 31)
+}
+
+function popcount32(x: number): number {
+  x -= (x >>> 1) & 0x55555555
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+  return (Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24)
+}
+
+function countFrom(set: Bitset, offset: number, words: number, start: number): number {
+  let total = 0
+  for (let w = start >>> 5; w < words; w++) {
+    let bits = set[offset + w]
+    if (w === start >>> 5) bits &= ~0 << (start & 31)
+    total += popcount32(bits)
+  }
+  return total
+}
+
+function attackTables(board: Board, rules: AttackRules): AttackTables {
+  const key = activeVariants(rules).join()
+  const forBoard = tablesCache.get(board) ?? new Map<string, AttackTables>()
+  tablesCache.set(board, forBoard)
+  const cached = forBoard.get(key)
+  if (cached) return cached
+
+  const squares = board.width * board.height
+  const words = Math.ceil(squares / 32)
+  const valid = new Uint32Array(words)
+  const masks = {} as Record<PieceType, Bitset>
+  const attackers = {} as Record<PieceType, Bitset>
+  for (let sq = 0; sq < squares; sq++) {
+    if (isValidSquare(board, Math.floor(sq / board.width), sq % board.width)) setBit(valid, sq)
+  }
+
+  for (const type of SOLVE_ORDER) {
+    masks[type] = new Uint32Array(squares * words)
+    attackers[type] = new Uint32Array(squares * words)
+    const { riders, leapers } = attackPattern(type, rules)
+    for (let from = 0; from < squares; from++) {
+      if (!hasBit(valid, from)) continue
+      const row = Math.floor(from / board.width)
+      const col = from % board.width
+      const mark = (r: number, c: number) => {
+        const to = r * board.width + c
+        setBit(masks[type], to, from * words)
+        setBit(attackers[type], from, to * words)
+      }
+      for (const [dr, dc] of riders) {
+        for (let r = row + dr, c = col + dc; lineContinues(board, r, c, rules); r += dr, c += dc) {
+          if (board.cells[r][c] === 'valid') mark(r, c)
+        }
+      }
+      for (const [dr, dc] of leapers) {
+        if (isValidSquare(board, row + dr, col + dc)) mark(row + dr, col + dc)
+      }
+    }
+  }
+
+  const mirror = (sq: number) => {
+    const row = Math.floor(sq / board.width)
+    return row * board.width + (board.width - 1 - (sq % board.width))
+  }
+  let mirrorSymmetric = true
+  for (let sq = 0; sq < squares && mirrorSymmetric; sq++) {
+    if (hasBit(valid, sq) !== hasBit(valid, mirror(sq))) mirrorSymmetric = false
+  }
+  // Masks only need comparing for the rare layout that is itself symmetric.
+  for (let sq = 0; sq < squares && mirrorSymmetric; sq++) {
+    for (const type of SOLVE_ORDER) {
+      if (!mirrorSymmetric) break
+      for (let to = 0; to < squares; to++) {
+        if (hasBit(masks[type], to, sq * words) !== hasBit(masks[type], mirror(to), mirror(sq) * words)) {
+          mirrorSymmetric = false
+          break
+        }
+      }
+    }
+  }
+
+  const tables = { squares, words, valid, masks, attackers, mirrorSymmetric }
+  forBoard.set(key, tables)
+  return tables
+}
+
+type SearchOptions = {
+  limits: SearchLimits
+  rules: AttackRules
+  /** Skip mirror-image branches; only sound when one solution is enough. */
+  useSymmetry: boolean
+  /** Stop (without throwing) once this many nodes have been expanded. */
+  maxNodes?: number
+  /** Called with each complete placement; return true to stop searching. */
+  onSolution: (placements: PiecePlacement[]) => boolean
+}
+
+type SearchOutcome = {
+  nodes: number
+  /** True when onSolution or maxNodes ended the search before it was exhaustive. */
+  stopped: boolean
+}
+
+// Returns null when the preplaced pieces are already invalid for this board and inventory.
+function searchPlacements(
   board: Board,
   inventory: Inventory,
-  preplaced: PiecePlacement[] = [],
-): PiecePlacement[] | null {
+  preplaced: PiecePlacement[],
+  options: SearchOptions,
+): SearchOutcome | null {
+  const { limits, onSolution } = options
   const placements: PiecePlacement[] = []
-  const usedCounts: Record<PieceType, number> = {
-    queen: 0,
-    rook: 0,
-    bishop: 0,
-    knight: 0,
-    pawn: 0,
-    king: 0,
-  }
+  const usedCounts = Object.fromEntries(PIECE_TYPES.map((type) => [type, 0])) as Record<PieceType, number>
 
   for (const p of preplaced) {
     if (!isValidSquare(board, p.row, p.col)) return null
@@ -214,87 +497,558 @@ export function solveWithInventory(
     if ((inventory[p.type] ?? 0) < usedCounts[p.type]) return null
   }
 
-  if (!isLegalPlacement(board, placements)) return null
+  if (!isLegalPlacement(board, placements, options.rules)) return null
 
-  const remainingPieces = buildInventoryArray(inventory).filter(
-    (type) => usedCounts[type] < (inventory[type] ?? 0),
-  )
+  const { words, valid, masks, attackers, mirrorSymmetric } = attackTables(board, options.rules)
+  const width = board.width
 
-  // Order pieces by impact: queen, rook, bishop, knight, pawn, king.
-  const priority: Record<PieceType, number> = {
-    queen: 0,
-    rook: 1,
-    bishop: 2,
-    knight: 3,
-    pawn: 4,
-    king: 5,
+  // Identical pieces form one group and are placed on increasing squares, so their
+  // permutations are searched once. Groups follow SOLVE_ORDER.
+  const groups = SOLVE_ORDER.map((type) => ({
+    type,
+    count: Math.max(0, (inventory[type] ?? 0) - usedCounts[type]),
+  })).filter((g) => g.count > 0)
+  const sequence: number[] = []
+  const groupEnd: number[] = []
+  groups.forEach((g, gi) => {
+    for (let i = 0; i < g.count; i++) sequence.push(gi)
+    groupEnd.push(sequence.length)
+  })
+  if (sequence.length === 0) return { nodes: 0, stopped: onSolution([...placements]) }
+
+  // avail[depth] holds, per group, the squares that group's type could still take.
+  const stride = groups.length * words
+  const avail: Bitset[] = Array.from({ length: sequence.length + 1 }, () => new Uint32Array(stride))
+  const root = avail[0]
+  groups.forEach((_, gi) => root.set(valid, gi * words))
+  const occupy = (set: Bitset, sq: number, type: PieceType) => {
+    const hit = masks[type]
+    const at = sq * words
+    groups.forEach((g, gi) => {
+      const guard = attackers[g.type]
+      const base = gi * words
+      for (let w = 0; w < words; w++) set[base + w] &= ~(hit[at + w] | guard[at + w])
+      set[base + (sq >>> 5)] &= ~(1 << (sq & 31))
+    })
   }
-  remainingPieces.sort((a, b) => priority[a] - priority[b])
+  for (const p of placements) occupy(root, p.row * width + p.col, p.type)
 
-  const occupied = new Set(placements.map((p) => `${p.row},${p.col}`))
-  const cells: { row: number; col: number }[] = []
-  for (let r = 0; r < board.height; r++) {
-    for (let c = 0; c < board.width; c++) {
-      if (board.cells[r][c] === 'valid') cells.push({ row: r, col: c })
+  // With a mirror-symmetric position, any solution or its reflection has the first group's
+  // lowest square on the left half, so the right half never needs to start a search.
+  const preplacedSymmetric =
+    options.useSymmetry &&
+    mirrorSymmetric &&
+    placements.every((p) =>
+      placements.some(
+        (q) => q.row === p.row && q.col === width - 1 - p.col && q.type === p.type,
+      ),
+    )
+  const firstColLimit = preplacedSymmetric ? Math.floor((width - 1) / 2) : width - 1
+
+  const chosen: number[] = []
+  let nodes = 0
+  let stopped = false
+  const toPlacements = () => [
+    ...placements,
+    ...chosen.map((sq, depth) => ({
+      row: Math.floor(sq / width),
+      col: sq % width,
+      type: groups[sequence[depth]].type,
+    })),
+  ]
+  const backtrack = (depth: number): boolean => {
+    if (depth === sequence.length) {
+      stopped = onSolution(toPlacements())
+      return stopped
     }
-  }
+    nodes++
+    if (options.maxNodes !== undefined && nodes > options.maxNodes) {
+      stopped = true
+      return true
+    }
+    if (limits.deadline !== undefined && nodes % DEADLINE_CHECK_INTERVAL === 0) {
+      if (Date.now() > limits.deadline) throw new SearchTimeoutError()
+    }
+    const gi = sequence[depth]
+    const { type } = groups[gi]
+    const current = avail[depth]
+    const next = avail[depth + 1]
+    const start = depth > 0 && sequence[depth - 1] === gi ? chosen[depth - 1] + 1 : 0
+    const base = gi * words
 
-  const backtrack = (idx: number): boolean => {
-    if (idx === remainingPieces.length) return true
-    const type = remainingPieces[idx]
-    for (const cell of cells) {
-      const key = `${cell.row},${cell.col}`
-      if (occupied.has(key)) continue
-      const candidate: PiecePlacement = { row: cell.row, col: cell.col, type }
-      let safe = true
-      for (const placed of placements) {
-        if (
-          piecesAttack(board, candidate, placed, occupied) ||
-          piecesAttack(board, placed, candidate, occupied)
-        ) {
-          safe = false
-          break
+    for (let w = start >>> 5; w < words; w++) {
+      let bits = current[base + w]
+      if (w === start >>> 5) bits &= ~0 << (start & 31)
+      while (bits !== 0) {
+        const low = bits & -bits
+        bits ^= low
+        const sq = w * 32 + (31 - Math.clz32(low))
+        if (depth === 0 && sq % width > firstColLimit) continue
+
+        next.set(current)
+        occupy(next, sq, type)
+
+        // Forward check: every group must still have room for what it has left to place.
+        let feasible = true
+        for (let gj = gi; gj < groups.length && feasible; gj++) {
+          const left = gj === gi ? groupEnd[gj] - depth - 1 : groups[gj].count
+          if (left === 0) continue
+          const from = gj === gi ? sq + 1 : 0
+          if (countFrom(next, gj * words, words, from) < left) feasible = false
         }
+        if (!feasible) continue
+
+        chosen[depth] = sq
+        if (backtrack(depth + 1)) return true
       }
-      if (!safe) continue
-      placements.push(candidate)
-      occupied.add(key)
-      if (backtrack(idx + 1)) return true
-      placements.pop()
-      occupied.delete(key)
     }
     return false
   }
 
-  const solved = backtrack(0)
-  return solved ? placements : null
+  backtrack(0)
+  return { nodes, stopped }
 }
 
-export function findSolvableBoard(
-  baseSeed: string,
+export function solveWithInventory(
+  board: Board,
   inventory: Inventory,
-  maxAttempts = 80,
-  blockRatio = DEFAULT_BLOCK_RATIO,
-): { board: Board; solution: PiecePlacement[] | null } {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const attemptSeed = attempt === 0 ? baseSeed : `${baseSeed}-${attempt}`
-    const board = generateBoard(attemptSeed, DEFAULT_SIZE, blockRatio)
-    const solution = solveWithInventory(board, inventory)
-    if (solution) return { board, solution }
+  preplaced: PiecePlacement[] = [],
+  limits: SearchLimits = {},
+  rules: AttackRules = STANDARD_RULES,
+): PiecePlacement[] | null {
+  let found: PiecePlacement[] | null = null
+  searchPlacements(board, inventory, preplaced, {
+    limits,
+    rules,
+    useSymmetry: true,
+    onSolution: (placements) => {
+      found = placements
+      return true
+    },
+  })
+  return found
+}
+
+export type SolutionCount = {
+  /** Distinct solutions, with identical pieces treated as interchangeable. */
+  count: number
+  /** True when `count` is only a lower bound because a limit was hit. */
+  capped: boolean
+  nodes: number
+}
+
+export function countSolutions(
+  board: Board,
+  inventory: Inventory,
+  maxSolutions = SOLUTION_COUNT_LIMIT,
+  maxNodes = COUNT_NODE_LIMIT,
+  preplaced: PiecePlacement[] = [],
+  rules: AttackRules = STANDARD_RULES,
+  limits: SearchLimits = {},
+): SolutionCount {
+  let count = 0
+  const outcome = searchPlacements(board, inventory, preplaced, {
+    limits,
+    rules,
+    useSymmetry: false,
+    maxNodes,
+    onSolution: () => ++count >= maxSolutions,
+  })
+  return { count, capped: outcome?.stopped ?? false, nodes: outcome?.nodes ?? 0 }
+}
+
+export function inventoryOf(placements: PiecePlacement[]): Inventory {
+  const inventory: Inventory = {}
+  for (const p of placements) inventory[p.type] = (inventory[p.type] ?? 0) + 1
+  return inventory
+}
+
+export function scoreOf(placements: PiecePlacement[]): number {
+  return placements.reduce((total, p) => total + PIECE_VALUES[p.type], 0)
+}
+
+export type ScoreOptimum = {
+  score: number
+  /** A placement reaching `score`, including the preplaced pieces. */
+  placements: PiecePlacement[]
+  /** False when the node limit cut the search short, so `score` is only the best found. */
+  proven: boolean
+  nodes: number
+}
+
+type LineClass = {
+  /** Indexes into the optimiser's types: pieces riding both ways along both of the class's axes. */
+  types: number[]
+  union: Bitset
+  segments: [Int32Array, Int32Array]
+  seen: [Uint32Array, Uint32Array]
+}
+
+// Labels each maximal line of valid cells along `step`; a rider moving that way sees the whole
+// line. With holes, lines run on across blocked squares.
+function lineSegments(board: Board, [dr, dc]: Vector, rules: AttackRules): Int32Array {
+  const { width, height } = board
+  const ids = new Int32Array(width * height).fill(-1)
+  let next = 0
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!isValidSquare(board, row, col) || ids[row * width + col] >= 0) continue
+      // Start from the line's first cell, so squares beyond a hole get the same label.
+      let r = row
+      let c = col
+      while (lineContinues(board, r - dr, c - dc, rules)) {
+        r -= dr
+        c -= dc
+      }
+      for (; lineContinues(board, r, c, rules); r += dr, c += dc) ids[r * width + c] = next
+      next++
+    }
   }
-  const board = generateBoard(baseSeed, DEFAULT_SIZE, blockRatio)
-  return { board, solution: null }
+  return ids
 }
 
-export function inventoryForSeed(_seed: string): Inventory {
+const hasStep = (steps: readonly Vector[], [dr, dc]: Vector) => steps.some(([r, c]) => r === dr && c === dc)
+
+/**
+ * Branch and bound over any subset of `inventory`: squares are tried in order, and a branch is
+ * dropped once even filling every square it could still use with its best remaining pieces
+ * can't beat the best score so far. Returns null when `preplaced` is itself illegal.
+ */
+export function maximizeScore(
+  board: Board,
+  inventory: Inventory,
+  preplaced: PiecePlacement[] = [],
+  maxNodes = SCORE_NODE_LIMIT,
+  rules: AttackRules = STANDARD_RULES,
+  limits: SearchLimits = {},
+): ScoreOptimum | null {
+  const used = inventoryOf(preplaced)
+  if (
+    !isLegalPlacement(board, preplaced, rules) ||
+    preplaced.some((p) => !isValidSquare(board, p.row, p.col)) ||
+    PIECE_TYPES.some((type) => (used[type] ?? 0) > (inventory[type] ?? 0))
+  ) {
+    return null
+  }
+
+  const { squares, words, valid, masks, attackers } = attackTables(board, rules)
+  const width = board.width
+  // Zero-value pieces can't raise the score, so the optimiser leaves them in the box.
+  const types = SOLVE_ORDER.filter(
+    (type) => PIECE_VALUES[type] > 0 && (inventory[type] ?? 0) - (used[type] ?? 0) > 0,
+  )
+  const left = types.map((type) => (inventory[type] ?? 0) - (used[type] ?? 0))
+  const stride = Math.max(1, types.length) * words
+  const avail: Bitset[] = Array.from({ length: squares + 1 }, () => new Uint32Array(stride))
+  types.forEach((_, ti) => avail[0].set(valid, ti * words))
+  const occupy = (set: Bitset, sq: number, type: PieceType) => {
+    const at = sq * words
+    types.forEach((t, ti) => {
+      const base = ti * words
+      for (let w = 0; w < words; w++) set[base + w] &= ~(masks[type][at + w] | attackers[t][at + w])
+      set[base + (sq >>> 5)] &= ~(1 << (sq & 31))
+    })
+  }
+  for (const p of preplaced) occupy(avail[0], p.row * width + p.col, p.type)
+
+  // A piece that rides both ways along a line attacks whatever else shares its segment, so each
+  // segment holds at most one such piece: a class can't outnumber its row (or column) segments.
+  const lineClasses: LineClass[] = (
+    [
+      [[0, 1], [1, 0]],
+      [[1, 1], [1, -1]],
+    ] as [Vector, Vector][]
+  ).map((axes) => {
+    const members = types.flatMap((type, ti) => {
+      const { riders } = attackPattern(type, rules)
+      const both = axes.every(([dr, dc]) => hasStep(riders, [dr, dc]) && hasStep(riders, [-dr, -dc]))
+      return both ? [ti] : []
+    })
+    return {
+      types: members,
+      union: new Uint32Array(words),
+      segments: [lineSegments(board, axes[0], rules), lineSegments(board, axes[1], rules)],
+      seen: [new Uint32Array(squares), new Uint32Array(squares)],
+    }
+  })
+  let stamp = 0
+  const segmentCap = (set: Bitset, from: number, line: LineClass): number => {
+    line.union.fill(0)
+    for (const ti of line.types) {
+      for (let w = 0; w < words; w++) line.union[w] |= set[ti * words + w]
+    }
+    stamp++
+    const counts = [0, 0]
+    for (let sq = from; sq < squares; sq++) {
+      if (!hasBit(line.union, sq)) continue
+      for (let axis = 0; axis < 2; axis++) {
+        const id = line.segments[axis][sq]
+        if (line.seen[axis][id] !== stamp) {
+          line.seen[axis][id] = stamp
+          counts[axis]++
+        }
+      }
+    }
+    return Math.min(counts[0], counts[1])
+  }
+
+  const union = new Uint32Array(words)
+  // Greedy by value is exact when the caps nest (all squares, then one line class), so each
+  // class gives a valid bound on its own and the tighter of the two is used.
+  const bound = (set: Bitset, from: number): number => {
+    union.fill(0)
+    types.forEach((_, ti) => {
+      for (let w = 0; w < words; w++) union[w] |= set[ti * words + w]
+    })
+    const squaresLeft = countFrom(union, 0, words, from)
+    let tightest = Number.POSITIVE_INFINITY
+    for (const line of lineClasses) {
+      let room = squaresLeft
+      let lineRoom = line.types.length > 0 ? segmentCap(set, from, line) : 0
+      let total = 0
+      for (let ti = 0; ti < types.length && room > 0; ti++) {
+        const inLine = line.types.includes(ti)
+        const take = Math.min(
+          left[ti],
+          countFrom(set, ti * words, words, from),
+          room,
+          inLine ? lineRoom : Number.POSITIVE_INFINITY,
+        )
+        total += take * PIECE_VALUES[types[ti]]
+        room -= take
+        if (inLine) lineRoom -= take
+      }
+      tightest = Math.min(tightest, total)
+    }
+    return tightest
+  }
+
+  const chosen: PiecePlacement[] = []
+  let best = { score: 0, placements: [] as PiecePlacement[] }
+  let nodes = 0
+  let proven = true
+  const search = (depth: number, from: number, score: number) => {
+    nodes++
+    if (score > best.score) best = { score, placements: [...chosen] }
+    if (nodes > maxNodes) {
+      proven = false
+      return
+    }
+    if (limits.deadline !== undefined && nodes % DEADLINE_CHECK_INTERVAL === 0) {
+      if (Date.now() > limits.deadline) throw new SearchTimeoutError()
+    }
+    const current = avail[depth]
+    if (score + bound(current, from) <= best.score) return
+    const next = avail[depth + 1]
+    for (let sq = from; sq < squares && proven; sq++) {
+      for (let ti = 0; ti < types.length && proven; ti++) {
+        if (left[ti] === 0 || !hasBit(current, sq, ti * words)) continue
+        const type = types[ti]
+        next.set(current)
+        occupy(next, sq, type)
+        left[ti]--
+        chosen.push({ row: Math.floor(sq / width), col: sq % width, type })
+        search(depth + 1, sq + 1, score + PIECE_VALUES[type])
+        chosen.pop()
+        left[ti]++
+      }
+      if (score + bound(current, sq + 1) <= best.score) return
+    }
+  }
+  search(0, 0, 0)
+
   return {
-    queen: 1,
-    rook: 3,
-    bishop: 2,
-    knight: 2,
-    pawn: 4,
-    king: 1,
+    score: scoreOf(preplaced) + best.score,
+    placements: [...preplaced, ...best.placements],
+    proven,
+    nodes,
   }
 }
 
+/** The max-score goal: a legal subset of `inventory` worth at least `par`. */
+export function reachesPar(
+  board: Board,
+  inventory: Inventory,
+  placements: PiecePlacement[],
+  par: number,
+  rules: AttackRules = STANDARD_RULES,
+): boolean {
+  const counts = inventoryOf(placements)
+  if (PIECE_TYPES.some((type) => (counts[type] ?? 0) > (inventory[type] ?? 0))) return false
+  return scoreOf(placements) >= par && isLegalPlacement(board, placements, rules)
+}
+
+export type DifficultyLabel = 'Easy' | 'Medium' | 'Hard' | 'Expert'
+
+export type DifficultyRating = {
+  /** 0 (trivial) to 100 (hardest we rate). */
+  score: number
+  label: DifficultyLabel
+  solutions: number
+  solutionsCapped: boolean
+  /** Search nodes the solver needed to reach its first solution. */
+  effort: number
+}
+
+const DIFFICULTY_BANDS: { label: DifficultyLabel; below: number }[] = [
+  { label: 'Easy', below: 20 },
+  { label: 'Medium', below: 40 },
+  { label: 'Hard', below: 60 },
+  { label: 'Expert', below: Number.POSITIVE_INFINITY },
+]
+
+export function difficultyLabel(score: number): DifficultyLabel {
+  return (DIFFICULTY_BANDS.find((b) => score < b.below) ?? DIFFICULTY_BANDS[DIFFICULTY_BANDS.length - 1]).label
+}
+
+export function rateDifficulty(
+  board: Board,
+  inventory: Inventory,
+  preplaced: PiecePlacement[] = [],
+  rules: AttackRules = STANDARD_RULES,
+  limits: SearchLimits = {},
+): DifficultyRating {
+  const first = searchPlacements(board, inventory, preplaced, {
+    limits,
+    rules,
+    useSymmetry: true,
+    onSolution: () => true,
+  })
+  const effort = first?.nodes ?? 0
+  const { count, capped } = countSolutions(
+    board,
+    inventory,
+    SOLUTION_COUNT_LIMIT,
+    COUNT_NODE_LIMIT,
+    preplaced,
+    rules,
+    limits,
+  )
+
+  // Effort alone tops out at Hard; reaching Expert also takes a scarce (near-unique) solution.
+  const scarcity = count === 0 ? 1 : 1 - Math.log10(count) / Math.log10(SOLUTION_COUNT_LIMIT)
+  const search = Math.min(1, Math.log10(1 + effort) / Math.log10(EFFORT_CEILING))
+  const score = Math.round(100 * Math.max(0, Math.min(1, 0.5 * scarcity + 0.5 * search)))
+  return { score, label: difficultyLabel(score), solutions: count, solutionsCapped: capped, effort }
+}
+
+export type PuzzleCheck = {
+  /** A full solution or, for max-score puzzles, the best placement found; null when there is none. */
+  solution: PiecePlacement[] | null
+  /** Also carries the solution count. Max-score puzzles are rated on the pieces their par uses. */
+  rating: DifficultyRating | null
+  par: ScorePar | null
+}
+
+/** What the editor shows for a hand-made puzzle. Every search, rating included, honours `limits`. */
+export function checkPuzzle(
+  board: Board,
+  inventory: Inventory,
+  locked: PiecePlacement[],
+  objective: PuzzleObjective,
+  limits: SearchLimits = {},
+  rules: AttackRules = STANDARD_RULES,
+): PuzzleCheck {
+  if (objective === 'maxScore') {
+    const optimum = maximizeScore(board, inventory, locked, SCORE_NODE_LIMIT, rules, limits)
+    if (!optimum || optimum.placements.length === 0) return { solution: null, rating: null, par: null }
+    return {
+      solution: optimum.placements,
+      rating: rateDifficulty(board, inventoryOf(optimum.placements), locked, rules, limits),
+      par: { score: optimum.score, proven: optimum.proven },
+    }
+  }
+  const solution = solveWithInventory(board, inventory, locked, limits, rules)
+  return { solution, rating: solution ? rateDifficulty(board, inventory, locked, rules, limits) : null, par: null }
+}
+
+export type HintAnalysis =
+  | { kind: 'conflict' }
+  | { kind: 'solved' }
+  | { kind: 'stuck' }
+  | { kind: 'wrong'; piece: PiecePlacement; suggestion: PiecePlacement | null }
+  | { kind: 'onTrack'; suggestion: PiecePlacement }
+
+/** Only the player's `placements` are ever blamed; `locked` pieces are taken as given. */
+export function analyzeHint(
+  board: Board,
+  inventory: Inventory,
+  placements: PiecePlacement[],
+  locked: PiecePlacement[] = [],
+  limits: SearchLimits = {},
+  rules: AttackRules = STANDARD_RULES,
+): HintAnalysis {
+  if (!isLegalPlacement(board, [...locked, ...placements], rules)) return { kind: 'conflict' }
+
+  const firstMissing = (solution: PiecePlacement[], current: PiecePlacement[]) =>
+    solution.find(
+      (p) => !current.some((pl) => pl.row === p.row && pl.col === p.col && pl.type === p.type),
+    ) ?? null
+
+  const current = [...locked, ...placements]
+  const solvedWithCurrent = solveWithInventory(board, inventory, current, limits, rules)
+  if (solvedWithCurrent) {
+    const suggestion = firstMissing(solvedWithCurrent, current)
+    return suggestion ? { kind: 'onTrack', suggestion } : { kind: 'solved' }
+  }
+
+  for (let i = 0; i < placements.length; i++) {
+    const test = [...locked, ...placements.filter((_, idx) => idx !== i)]
+    const stillSolvable = solveWithInventory(board, inventory, test, limits, rules)
+    if (stillSolvable) {
+      return { kind: 'wrong', piece: placements[i], suggestion: firstMissing(stillSolvable, test) }
+    }
+  }
+  return { kind: 'stuck' }
+}
+
+export type SolvableBoard = {
+  board: Board
+  solution: PiecePlacement[] | null
+}
+
+/**
+ * `complete`: place every piece in the inventory. `maxScore`: place any subset of it, aiming for
+ * the highest total PIECE_VALUES.
+ */
+export type PuzzleObjective = 'complete' | 'maxScore'
+
+/** What one day's generator aims for. The seed picks an inventory and block ratio per attempt. */
+export type GenerationTarget = {
+  difficulty: DifficultyLabel
+  /** Defaults to a plain 8x8 board. */
+  layout?: BoardLayout
+  inventories: Inventory[]
+  blockRatio: { min: number; max: number }
+  /** Prefer boards with at most this many distinct solutions. */
+  maxSolutions?: number
+  /** Overrides the generator version's attempt count for this day. */
+  maxAttempts?: number
+  /** How many of the inventory's pieces start on the board and can't be moved. */
+  lockedPieces?: number
+  /** Defaults to `complete`. */
+  objective?: PuzzleObjective
+  /** Defaults to standard attacks. */
+  rules?: AttackRules
+}
+
+/** The best score the optimiser found for a max-score puzzle. */
+export type ScorePar = {
+  score: number
+  /** False when the optimiser ran out of nodes, so a player could still beat it. */
+  proven: boolean
+}
+
+export type GeneratedPuzzle = SolvableBoard & {
+  inventory: Inventory
+  blockRatio: number
+  /** Part of `inventory`, already placed. */
+  locked: PiecePlacement[]
+  rating: DifficultyRating | null
+  objective: PuzzleObjective
+  /** Only for `maxScore` puzzles; `solution` is then the placement that scores it. */
+  par: ScorePar | null
+  rules: AttackRules
+}
+
 export const DEFAULT_BLOCK_RATIO_VALUE = DEFAULT_BLOCK_RATIO
@@ -0,0 +1,25 @@
+import { SearchTimeoutError } from './engine'
+import { runEngineRequest } from './engineProtocol'
+import type { EngineRequest, EngineResponse } from './engineProtocol'
+
+type WorkerScope = {
+  postMessage: (message: EngineResponse) => void
+  onmessage: ((event: MessageEvent<EngineRequest>) => void) | null
+}
+
+const scope = self as unknown as WorkerScope
+
+scope.onmessage = ({ data: request }) => {
+  try {
+    const result = runEngineRequest(request, (done, total) =>
+      scope.postMessage({ type: 'progress', done, total }),
+    )
+    scope.postMessage({ type: 'result', result })
+  } catch (err) {
+    scope.postMessage({
+      type: 'error',
+      reason: err instanceof SearchTimeoutError ? 'timeout' : 'failed',
+      message: err instanceof Error ? err.message : String(err),
+    })
+  }
+}
@@ -0,0 +1,115 @@
+import { SearchTimeoutError } from './engine'
+import type {
+  Board,
+  GeneratedPuzzle,
+  HintAnalysis,
+  Inventory,
+  PiecePlacement,
+  PuzzleCheck,
+  PuzzleObjective,
+} from './engine'
+import { runEngineRequest } from './engineProtocol'
+import type { AttackRules } from './rules'
+import type { EngineRequest, EngineResponse, ProgressHandler } from './engineProtocol'
+
+export type EngineErrorReason = 'cancelled' | 'timeout' | 'failed'
+
+export class EngineError extends Error {
+  readonly reason: EngineErrorReason
+
+  constructor(reason: EngineErrorReason, message: string) {
+    super(message)
+    this.name = 'EngineError'
+    this.reason = reason
+  }
+}
+
+/** A running engine request. `cancel` rejects the promise with reason `cancelled`. */
+export type EngineTask<T> = {
+  promise: Promise<T>
+  cancel: () => void
+}
+
+// Each task gets its own worker, so cancelling is a terminate: the search stops mid-backtrack.
+function runTask<T>(request: EngineRequest, onProgress?: ProgressHandler): EngineTask<T> {
+  let settled = false
+  let rejectTask: (err: EngineError) => void = () => {}
+  let stop = () => {}
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectTask = reject
+    const finish = (fn: () => void) => {
+      if (settled) return
+      settled = true
+      stop()
+      fn()
+    }
+
+    // Main-thread fallback for environments without Worker support.
+    if (typeof Worker === 'undefined') {
+      const id = window.setTimeout(() => {
+        try {
+          const result = runEngineRequest(request, onProgress) as T
+          finish(() => resolve(result))
+        } catch (err) {
+          const reason = err instanceof SearchTimeoutError ? 'timeout' : 'failed'
+          finish(() => reject(new EngineError(reason, err instanceof Error ? err.message : String(err))))
+        }
+      }, 0)
+      stop = () => window.clearTimeout(id)
+      return
+    }
+
+    const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' })
+    stop = () => worker.terminate()
+    worker.onmessage = ({ data }: MessageEvent<EngineResponse>) => {
+      if (data.type === 'progress') {
+        if (!settled) onProgress?.(data.done, data.total)
+        return
+      }
+      if (data.type === 'result') finish(() => resolve(data.result as T))
+      else finish(() => reject(new EngineError(data.reason, data.message)))
+    }
+    worker.onerror = (event) => {
+      event.preventDefault()
+      finish(() => reject(new EngineError('failed', event.message || 'Engine worker crashed')))
+    }
+    worker.postMessage(request)
+  })
+
+  const cancel = () => {
+    if (settled) return
+    settled = true
+    stop()
+    rejectTask(new EngineError('cancelled', 'Engine request was cancelled'))
+  }
+
+  return { promise, cancel }
+}
+
+/** Generation has no time budget: every player must end up on the same board regardless of device speed. */
+export function requestPuzzle(seed: string, onProgress?: ProgressHandler): EngineTask<GeneratedPuzzle> {
+  return runTask({ type: 'generate', seed }, onProgress)
+}
+
+export function requestHintAnalysis(
+  board: Board,
+  inventory: Inventory,
+  placements: PiecePlacement[],
+  locked: PiecePlacement[],
+  rules: AttackRules,
+  budgetMs: number,
+): EngineTask<HintAnalysis> {
+  return runTask({ type: 'hint', board, inventory, placements, locked, rules, budgetMs })
+}
+
+export function requestPuzzleCheck(
+  board: Board,
+  inventory: Inventory,
+  locked: PiecePlacement[],
+  objective: PuzzleObjective,
+  rules: AttackRules,
+  budgetMs: number,
+): EngineTask<PuzzleCheck> {
+  return runTask({ type: 'check', board, inventory, locked, objective, rules, budgetMs })
+}
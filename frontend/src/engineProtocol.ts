@@ -0,0 +1,55 @@
+import { analyzeHint, checkPuzzle } from './engine'
+import type { Board, Inventory, PiecePlacement, PuzzleObjective } from './engine'
+import { generateDaily } from './generators'
+import type { AttackRules } from './rules'
+
+/** The worker looks up the generator version from the seed, the same way the server does. */
+type GenerateRequest = {
+  type: 'generate'
+  seed: string
+}
+
+type HintRequest = {
+  type: 'hint'
+  board: Board
+  inventory: Inventory
+  placements: PiecePlacement[]
+  locked: PiecePlacement[]
+  rules: AttackRules
+  budgetMs: number
+}
+
+type CheckRequest = {
+  type: 'check'
+  board: Board
+  inventory: Inventory
+  locked: PiecePlacement[]
+  objective: PuzzleObjective
+  rules: AttackRules
+  budgetMs: number
+}
+
+export type EngineRequest = GenerateRequest | HintRequest | CheckRequest
+
+export type EngineResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; reason: 'timeout' | 'failed'; message: string }
+
+export type ProgressHandler = (done: number, total: number) => void
+
+/** Executes one request synchronously; shared by the worker and the main-thread fallback. */
+export function runEngineRequest(request: EngineRequest, onProgress?: ProgressHandler): unknown {
+  switch (request.type) {
+    case 'generate':
+      return generateDaily(request.seed, onProgress)
+    case 'hint': {
+      const { board, inventory, placements, locked, rules, budgetMs } = request
+      return analyzeHint(board, inventory, placements, locked, { deadline: Date.now() + budgetMs }, rules)
+    }
+    case 'check': {
+      const { board, inventory, locked, objective, rules, budgetMs } = request
+      return checkPuzzle(board, inventory, locked, objective, { deadline: Date.now() + budgetMs }, rules)
+    }
+  }
+}
@@ -0,0 +1,21 @@
+export function formatTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+}
+
+/** Turns a `YYYYMMDD` daily seed into `YYYY-MM-DD`; other seeds are returned unchanged. */
+export function formatSeedDate(seed: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(seed)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : seed
+}
@@ -0,0 +1,228 @@
+// Generator version 1: the launch generator, copied from the engine as it shipped. Every day
+// from launch until version 2 was generated by this code, so nothing here may change, including
+// the attack rules and the solver's piece order. See `GENERATOR_VERSIONS`.
+import type { Board, CellState, GeneratedPuzzle, Inventory, PiecePlacement, PieceType } from '../engine'
+import { STANDARD_RULES } from '../rules'
+
+const DEFAULT_SIZE = 8
+const DEFAULT_BLOCK_RATIO = 0.28
+const MIN_VALID_RATIO = 0.45
+
+function hashSeed(seed: string): number {
+  // Simple deterministic hash to feed the RNG.
+  let h = 1779033703 ^ seed.length
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+function mulberry32(a: number): () => number {
+  return function () {
+    let t = (a += 0x6d2b79f5)
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function generateBoard(seed: string, size = DEFAULT_SIZE, blockRatio = DEFAULT_BLOCK_RATIO): Board {
+  const rng = mulberry32(hashSeed(seed))
+  const cells: CellState[][] = []
+  let validCount = 0
+  const total = size * size
+
+  for (let row = 0; row < size; row++) {
+    const rowCells: CellState[] = []
+    for (let col = 0; col < size; col++) {
+      const cell: CellState = rng() < blockRatio ? 'blocked' : 'valid'
+      rowCells.push(cell)
+      if (cell === 'valid') validCount++
+    }
+    cells.push(rowCells)
+  }
+
+  const minValid = Math.ceil(total * MIN_VALID_RATIO)
+  if (validCount < minValid) {
+    // Flip the earliest blocked cells to valid to ensure playability while staying deterministic.
+    for (let row = 0; row < size && validCount < minValid; row++) {
+      for (let col = 0; col < size && validCount < minValid; col++) {
+        if (cells[row][col] === 'blocked') {
+          cells[row][col] = 'valid'
+          validCount++
+        }
+      }
+    }
+  }
+
+  return { width: size, height: size, cells, seed }
+}
+
+function pathClear(
+  board: Board,
+  from: PiecePlacement,
+  to: PiecePlacement,
+  occupied: Set<string>,
+): boolean {
+  const dr = Math.sign(to.row - from.row)
+  const dc = Math.sign(to.col - from.col)
+  let r = from.row + dr
+  let c = from.col + dc
+  while (r !== to.row || c !== to.col) {
+    if (board.cells[r][c] === 'blocked') return false
+    if (occupied.has(`${r},${c}`)) return false
+    r += dr
+    c += dc
+  }
+  return true
+}
+
+function piecesAttack(
+  board: Board,
+  a: PiecePlacement,
+  b: PiecePlacement,
+  occupied: Set<string>,
+): boolean {
+  const dr = b.row - a.row
+  const dc = b.col - a.col
+  const adr = Math.abs(dr)
+  const adc = Math.abs(dc)
+
+  switch (a.type) {
+    case 'rook':
+      if (dr === 0 || dc === 0) return pathClear(board, a, b, occupied)
+      return false
+    case 'bishop':
+      if (adr === adc) return pathClear(board, a, b, occupied)
+      return false
+    case 'queen':
+      if (dr === 0 || dc === 0 || adr === adc) return pathClear(board, a, b, occupied)
+      return false
+    case 'knight':
+      return (adr === 2 && adc === 1) || (adr === 1 && adc === 2)
+    case 'king':
+      return adr <= 1 && adc <= 1 && (adr + adc > 0)
+    case 'pawn': {
+      // Pawns attack "up" the board (toward row -1).
+      return dr === -1 && (dc === -1 || dc === 1)
+    }
+    default:
+      return false
+  }
+}
+
+function buildInventoryArray(inv: Inventory): PieceType[] {
+  const list: PieceType[] = []
+  ;(Object.keys(inv) as PieceType[]).forEach((type) => {
+    const count = inv[type] ?? 0
+    for (let i = 0; i < count; i++) list.push(type)
+  })
+  return list
+}
+
+// Only ever called without preplaced pieces, so the launch version's checks on them are left out.
+function solveWithInventory(board: Board, inventory: Inventory): PiecePlacement[] | null {
+  const placements: PiecePlacement[] = []
+  const remainingPieces = buildInventoryArray(inventory)
+
+  // Order pieces by impact: queen, rook, bishop, knight, pawn, king.
+  const priority: Partial<Record<PieceType, number>> = {
+    queen: 0,
+    rook: 1,
+    bishop: 2,
+    knight: 3,
+    pawn: 4,
+    king: 5,
+  }
+  remainingPieces.sort((a, b) => (priority[a] ?? 0) - (priority[b] ?? 0))
+
+  const occupied = new Set<string>()
+  const cells: { row: number; col: number }[] = []
+  for (let r = 0; r < board.height; r++) {
+    for (let c = 0; c < board.width; c++) {
+      if (board.cells[r][c] === 'valid') cells.push({ row: r, col: c })
+    }
+  }
+
+  const backtrack = (idx: number): boolean => {
+    if (idx === remainingPieces.length) return true
+    const type = remainingPieces[idx]
+    for (const cell of cells) {
+      const key = `${cell.row},${cell.col}`
+      if (occupied.has(key)) continue
+      const candidate: PiecePlacement = { row: cell.row, col: cell.col, type }
+      let safe = true
+      for (const placed of placements) {
+        if (
+          piecesAttack(board, candidate, placed, occupied) ||
+          piecesAttack(board, placed, candidate, occupied)
+        ) {
+          safe = false
+          break
+        }
+      }
+      if (!safe) continue
+      placements.push(candidate)
+      occupied.add(key)
+      if (backtrack(idx + 1)) return true
+      placements.pop()
+      occupied.delete(key)
+    }
+    return false
+  }
+
+  const solved = backtrack(0)
+  return solved ? placements : null
+}
+
+export function findSolvableBoard(
+  baseSeed: string,
+  inventory: Inventory,
+  maxAttempts = 80,
+  blockRatio = DEFAULT_BLOCK_RATIO,
+  onProgress?: (attempt: number, maxAttempts: number) => void,
+): { board: Board; solution: PiecePlacement[] | null } {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    onProgress?.(attempt, maxAttempts)
+    const attemptSeed = attempt === 0 ? baseSeed : `${baseSeed}-${attempt}`
+    const board = generateBoard(attemptSeed, DEFAULT_SIZE, blockRatio)
+    const solution = solveWithInventory(board, inventory)
+    if (solution) return { board, solution }
+  }
+  const board = generateBoard(baseSeed, DEFAULT_SIZE, blockRatio)
+  return { board, solution: null }
+}
+
+// Every launch day used the same set.
+export function inventoryForSeed(): Inventory {
+  return {
+    queen: 1,
+    rook: 3,
+    bishop: 2,
+    knight: 2,
+    pawn: 4,
+    king: 1,
+  }
+}
+
+/** Launch dailies were never rated, had no locked pieces and always used standard attacks. */
+export function generateLaunchPuzzle(
+  seed: string,
+  maxAttempts: number,
+  onProgress?: (attempt: number, maxAttempts: number) => void,
+): GeneratedPuzzle {
+  const inventory = inventoryForSeed()
+  const { board, solution } = findSolvableBoard(seed, inventory, maxAttempts, DEFAULT_BLOCK_RATIO, onProgress)
+  return {
+    board,
+    solution,
+    inventory,
+    blockRatio: DEFAULT_BLOCK_RATIO,
+    locked: [],
+    rating: null,
+    objective: 'complete',
+    par: null,
+    rules: STANDARD_RULES,
+  }
+}
@@ -0,0 +1,780 @@
+// Generator version 2: the scheduled generator (layouts, locked pieces, max-score and fairy days,
+// rule variants), copied from the engine when it was frozen. Every day from version 2's `since`
+// is generated by this code, so nothing here may change, including piece values and moves, the
+// solver's piece order and the difficulty rating. See `GENERATOR_VERSIONS`.
+import type {
+  Board,
+  BoardLayout,
+  CellState,
+  DifficultyLabel,
+  DifficultyRating,
+  GeneratedPuzzle,
+  GenerationTarget,
+  Inventory,
+  PiecePlacement,
+  ScoreOptimum,
+  ScorePar,
+  SolutionCount,
+} from '../engine'
+import type { PieceType, Vector } from '../pieces'
+import { STANDARD_RULES } from '../rules'
+import type { AttackRules } from '../rules'
+
+const ORTHOGONAL: Vector[] = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const DIAGONAL: Vector[] = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
+const ALL_DIRECTIONS: Vector[] = [...ORTHOGONAL, ...DIAGONAL]
+const KNIGHT_JUMPS: Vector[] = [[1, 2], [2, 1], [-1, 2], [-2, 1], [1, -2], [2, -1], [-1, -2], [-2, -1]]
+const CAMEL_JUMPS: Vector[] = [[1, 3], [3, 1], [-1, 3], [-3, 1], [1, -3], [3, -1], [-1, -3], [-3, -1]]
+const PAWN_BACKWARD: Vector[] = [[1, -1], [1, 1]]
+const WIDE_KING: Vector[] = [-2, -1, 0, 1, 2].flatMap((dr) =>
+  [-2, -1, 0, 1, 2].filter((dc) => dr !== 0 || dc !== 0).map((dc): Vector => [dr, dc]),
+)
+
+type AttackPattern = { riders: readonly Vector[]; leapers: readonly Vector[] }
+
+const PIECES: Record<PieceType, AttackPattern & { value: number }> = {
+  queen: { value: 9, riders: ALL_DIRECTIONS, leapers: [] },
+  rook: { value: 5, riders: ORTHOGONAL, leapers: [] },
+  bishop: { value: 3, riders: DIAGONAL, leapers: [] },
+  knight: { value: 3, riders: [], leapers: KNIGHT_JUMPS },
+  // Pawns attack "up" the board (toward row -1).
+  pawn: { value: 1, riders: [], leapers: [[-1, -1], [-1, 1]] },
+  king: { value: 0, riders: [], leapers: ALL_DIRECTIONS },
+  amazon: { value: 12, riders: ALL_DIRECTIONS, leapers: KNIGHT_JUMPS },
+  chancellor: { value: 8, riders: ORTHOGONAL, leapers: KNIGHT_JUMPS },
+  archbishop: { value: 7, riders: DIAGONAL, leapers: KNIGHT_JUMPS },
+  nightrider: { value: 5, riders: KNIGHT_JUMPS, leapers: [] },
+  camel: { value: 2, riders: [], leapers: CAMEL_JUMPS },
+}
+
+const VALUES = Object.fromEntries(
+  Object.entries(PIECES).map(([type, piece]) => [type, piece.value]),
+) as Record<PieceType, number>
+
+function attackPattern(type: PieceType, rules: AttackRules): AttackPattern {
+  const { riders, leapers } = PIECES[type]
+  if (type === 'pawn' && rules.twoWayPawns) return { riders, leapers: [...leapers, ...PAWN_BACKWARD] }
+  if (type === 'king' && rules.wideKings) return { riders, leapers: WIDE_KING }
+  return { riders, leapers }
+}
+
+const MIN_VALID_RATIO = 0.45
+
+function hashSeed(seed: string): number {
+  // Simple deterministic hash to feed the RNG.
+  let h = 1779033703 ^ seed.length
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+function mulberry32(a: number): () => number {
+  return function () {
+    let t = (a += 0x6d2b79f5)
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function insideShape(layout: BoardLayout, row: number, col: number): boolean {
+  const { width, height, shape } = layout
+  // Offsets from the centre, in units of half the board: the edges sit at 1.
+  const dy = Math.abs(row - (height - 1) / 2) / (height / 2)
+  const dx = Math.abs(col - (width - 1) / 2) / (width / 2)
+  switch (shape) {
+    case 'rectangle':
+      return true
+    case 'cross':
+      return dx < 1 / 3 || dy < 1 / 3
+    case 'diamond':
+      return dx + dy <= 1
+    case 'donut':
+      return dx >= 1 / 3 || dy >= 1 / 3
+  }
+}
+
+function generateBoard(seed: string, layout: BoardLayout, blockRatio: number): Board {
+  const { width, height } = layout
+  const rng = mulberry32(hashSeed(seed))
+  const cells: CellState[][] = []
+  let validCount = 0
+  let total = 0
+
+  for (let row = 0; row < height; row++) {
+    const rowCells: CellState[] = []
+    for (let col = 0; col < width; col++) {
+      if (!insideShape(layout, row, col)) {
+        rowCells.push('void')
+        continue
+      }
+      const cell: CellState = rng() < blockRatio ? 'blocked' : 'valid'
+      rowCells.push(cell)
+      total++
+      if (cell === 'valid') validCount++
+    }
+    cells.push(rowCells)
+  }
+
+  const minValid = Math.ceil(total * MIN_VALID_RATIO)
+  if (validCount < minValid) {
+    // Flip the earliest blocked cells to valid to ensure playability while staying deterministic.
+    for (let row = 0; row < height && validCount < minValid; row++) {
+      for (let col = 0; col < width && validCount < minValid; col++) {
+        if (cells[row][col] === 'blocked') {
+          cells[row][col] = 'valid'
+          validCount++
+        }
+      }
+    }
+  }
+
+  return { width, height, cells, seed }
+}
+
+function isValidSquare(board: Board, row: number, col: number): boolean {
+  return (
+    row >= 0 &&
+    col >= 0 &&
+    row < board.height &&
+    col < board.width &&
+    board.cells[row][col] === 'valid'
+  )
+}
+
+// Whether a line reaching this cell carries on past it: void cells and the edge always stop it,
+// blocked squares unless they are holes.
+function lineContinues(board: Board, row: number, col: number, rules: AttackRules): boolean {
+  if (row < 0 || col < 0 || row >= board.height || col >= board.width) return false
+  const cell = board.cells[row][col]
+  return cell === 'valid' || (cell === 'blocked' && rules.holes)
+}
+
+// Solution counts past this are all "plenty" as far as difficulty is concerned.
+const SOLUTION_COUNT_LIMIT = 10_000
+const COUNT_NODE_LIMIT = 500_000
+// Search effort (nodes to first solution) that maps to the top of the effort scale.
+const EFFORT_CEILING = 30_000
+
+// The piece registry's values and order when this version was frozen: strongest first, ties in
+// registry order.
+const SOLVE_ORDER: PieceType[] = [
+  'amazon',
+  'queen',
+  'chancellor',
+  'archbishop',
+  'rook',
+  'nightrider',
+  'bishop',
+  'knight',
+  'camel',
+  'pawn',
+  'king',
+]
+
+type Bitset = Uint32Array
+
+type AttackTables = {
+  squares: number
+  words: number
+  valid: Bitset
+  /** masks[type] at `sq * words`: squares a `type` on `sq` attacks, ignoring other pieces on its lines. */
+  masks: Record<PieceType, Bitset>
+  /** attackers[type] at `sq * words`: squares from which a `type` would attack `sq`. */
+  attackers: Record<PieceType, Bitset>
+  /** True when mirroring files maps every attack mask onto another one. */
+  mirrorSymmetric: boolean
+}
+
+// Per board, keyed by the rule variants that change attacks.
+const tablesCache = new WeakMap<Board, Map<string, AttackTables>>()
+
+function hasBit(set: Bitset, index: number, offset = 0): boolean {
+  return (set[offset + (index >>> 5)] & (1 << (index & 31))) !== 0
+}
+
+function setBit(set: Bitset, index: number, offset = 0): void {
+  set[offset + (index >>> 5)] |= 1 << (index & 31)
+}
+
+function popcount32(x: number): number {
+  x -= (x >>> 1) & 0x55555555
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+  return (Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24)
+}
+
+function countFrom(set: Bitset, offset: number, words: number, start: number): number {
+  let total = 0
+  for (let w = start >>> 5; w < words; w++) {
+    let bits = set[offset + w]
+    if (w === start >>> 5) bits &= ~0 << (start & 31)
+    total += popcount32(bits)
+  }
+  return total
+}
+
+function attackTables(board: Board, rules: AttackRules): AttackTables {
+  const key = `${rules.twoWayPawns}:${rules.wideKings}:${rules.holes}`
+  const forBoard = tablesCache.get(board) ?? new Map<string, AttackTables>()
+  tablesCache.set(board, forBoard)
+  const cached = forBoard.get(key)
+  if (cached) return cached
+
+  const squares = board.width * board.height
+  const words = Math.ceil(squares / 32)
+  const valid = new Uint32Array(words)
+  const masks = {} as Record<PieceType, Bitset>
+  const attackers = {} as Record<PieceType, Bitset>
+  for (let sq = 0; sq < squares; sq++) {
+    if (isValidSquare(board, Math.floor(sq / board.width), sq % board.width)) setBit(valid, sq)
+  }
+
+  for (const type of SOLVE_ORDER) {
+    masks[type] = new Uint32Array(squares * words)
+    attackers[type] = new Uint32Array(squares * words)
+    const { riders, leapers } = attackPattern(type, rules)
+    for (let from = 0; from < squares; from++) {
+      if (!hasBit(valid, from)) continue
+      const row = Math.floor(from / board.width)
+      const col = from % board.width
+      const mark = (r: number, c: number) => {
+        const to = r * board.width + c
+        setBit(masks[type], to, from * words)
+        setBit(attackers[type], from, to * words)
+      }
+      for (const [dr, dc] of riders) {
+        for (let r = row + dr, c = col + dc; lineContinues(board, r, c, rules); r += dr, c += dc) {
+          if (board.cells[r][c] === 'valid') mark(r, c)
+        }
+      }
+      for (const [dr, dc] of leapers) {
+        if (isValidSquare(board, row + dr, col + dc)) mark(row + dr, col + dc)
+      }
+    }
+  }
+
+  const mirror = (sq: number) => {
+    const row = Math.floor(sq / board.width)
+    return row * board.width + (board.width - 1 - (sq % board.width))
+  }
+  let mirrorSymmetric = true
+  for (let sq = 0; sq < squares && mirrorSymmetric; sq++) {
+    if (hasBit(valid, sq) !== hasBit(valid, mirror(sq))) mirrorSymmetric = false
+  }
+  // Masks only need comparing for the rare layout that is itself symmetric.
+  for (let sq = 0; sq < squares && mirrorSymmetric; sq++) {
+    for (const type of SOLVE_ORDER) {
+      if (!mirrorSymmetric) break
+      for (let to = 0; to < squares; to++) {
+        if (hasBit(masks[type], to, sq * words) !== hasBit(masks[type], mirror(to), mirror(sq) * words)) {
+          mirrorSymmetric = false
+          break
+        }
+      }
+    }
+  }
+
+  const tables = { squares, words, valid, masks, attackers, mirrorSymmetric }
+  forBoard.set(key, tables)
+  return tables
+}
+
+type SearchOptions = {
+  rules: AttackRules
+  /** Skip mirror-image branches; only sound when one solution is enough. */
+  useSymmetry: boolean
+  /** Stop (without throwing) once this many nodes have been expanded. */
+  maxNodes?: number
+  /** Called with each complete placement; return true to stop searching. */
+  onSolution: (placements: PiecePlacement[]) => boolean
+}
+
+type SearchOutcome = {
+  nodes: number
+  /** True when onSolution or maxNodes ended the search before it was exhaustive. */
+  stopped: boolean
+}
+
+// Returns null when the preplaced pieces are already invalid for this board and inventory.
+function searchPlacements(
+  board: Board,
+  inventory: Inventory,
+  preplaced: PiecePlacement[],
+  options: SearchOptions,
+): SearchOutcome | null {
+  const { onSolution } = options
+  const placements: PiecePlacement[] = []
+  const usedCounts = Object.fromEntries(SOLVE_ORDER.map((type) => [type, 0])) as Record<PieceType, number>
+
+  for (const p of preplaced) {
+    if (!isValidSquare(board, p.row, p.col)) return null
+    placements.push(p)
+    usedCounts[p.type] += 1
+    if ((inventory[p.type] ?? 0) < usedCounts[p.type]) return null
+  }
+
+  // Preplaced pieces here always come out of a solution, so they can't attack each other.
+
+  const { words, valid, masks, attackers, mirrorSymmetric } = attackTables(board, options.rules)
+  const width = board.width
+
+  // Identical pieces form one group and are placed on increasing squares, so their
+  // permutations are searched once. Groups follow SOLVE_ORDER.
+  const groups = SOLVE_ORDER.map((type) => ({
+    type,
+    count: Math.max(0, (inventory[type] ?? 0) - usedCounts[type]),
+  })).filter((g) => g.count > 0)
+  const sequence: number[] = []
+  const groupEnd: number[] = []
+  groups.forEach((g, gi) => {
+    for (let i = 0; i < g.count; i++) sequence.push(gi)
+    groupEnd.push(sequence.length)
+  })
+  if (sequence.length === 0) return { nodes: 0, stopped: onSolution([...placements]) }
+
+  // avail[depth] holds, per group, the squares that group's type could still take.
+  const stride = groups.length * words
+  const avail: Bitset[] = Array.from({ length: sequence.length + 1 }, () => new Uint32Array(stride))
+  const root = avail[0]
+  groups.forEach((_, gi) => root.set(valid, gi * words))
+  const occupy = (set: Bitset, sq: number, type: PieceType) => {
+    const hit = masks[type]
+    const at = sq * words
+    groups.forEach((g, gi) => {
+      const guard = attackers[g.type]
+      const base = gi * words
+      for (let w = 0; w < words; w++) set[base + w] &= ~(hit[at + w] | guard[at + w])
+      set[base + (sq >>> 5)] &= ~(1 << (sq & 31))
+    })
+  }
+  for (const p of placements) occupy(root, p.row * width + p.col, p.type)
+
+  // With a mirror-symmetric position, any solution or its reflection has the first group's
+  // lowest square on the left half, so the right half never needs to start a search.
+  const preplacedSymmetric =
+    options.useSymmetry &&
+    mirrorSymmetric &&
+    placements.every((p) =>
+      placements.some(
+        (q) => q.row === p.row && q.col === width - 1 - p.col && q.type === p.type,
+      ),
+    )
+  const firstColLimit = preplacedSymmetric ? Math.floor((width - 1) / 2) : width - 1
+
+  const chosen: number[] = []
+  let nodes = 0
+  let stopped = false
+  const toPlacements = () => [
+    ...placements,
+    ...chosen.map((sq, depth) => ({
+      row: Math.floor(sq / width),
+      col: sq % width,
+      type: groups[sequence[depth]].type,
+    })),
+  ]
+  const backtrack = (depth: number): boolean => {
+    if (depth === sequence.length) {
+      stopped = onSolution(toPlacements())
+      return stopped
+    }
+    nodes++
+    if (options.maxNodes !== undefined && nodes > options.maxNodes) {
+      stopped = true
+      return true
+    }
+    const gi = sequence[depth]
+    const { type } = groups[gi]
+    const current = avail[depth]
+    const next = avail[depth + 1]
+    const start = depth > 0 && sequence[depth - 1] === gi ? chosen[depth - 1] + 1 : 0
+    const base = gi * words
+
+    for (let w = start >>> 5; w < words; w++) {
+      let bits = current[base + w]
+      if (w === start >>> 5) bits &= ~0 << (start & 31)
+      while (bits !== 0) {
+        const low = bits & -bits
+        bits ^= low
+        const sq = w * 32 + (31 - Math.clz32(low))
+        if (depth === 0 && sq % width > firstColLimit) continue
+
+        next.set(current)
+        occupy(next, sq, type)
+
+        // Forward check: every group must still have room for what it has left to place.
+        let feasible = true
+        for (let gj = gi; gj < groups.length && feasible; gj++) {
+          const left = gj === gi ? groupEnd[gj] - depth - 1 : groups[gj].count
+          if (left === 0) continue
+          const from = gj === gi ? sq + 1 : 0
+          if (countFrom(next, gj * words, words, from) < left) feasible = false
+        }
+        if (!feasible) continue
+
+        chosen[depth] = sq
+        if (backtrack(depth + 1)) return true
+      }
+    }
+    return false
+  }
+
+  backtrack(0)
+  return { nodes, stopped }
+}
+
+function countSolutions(
+  board: Board,
+  inventory: Inventory,
+  maxSolutions: number,
+  maxNodes: number,
+  preplaced: PiecePlacement[],
+  rules: AttackRules,
+): SolutionCount {
+  let count = 0
+  const outcome = searchPlacements(board, inventory, preplaced, {
+    rules,
+    useSymmetry: false,
+    maxNodes,
+    onSolution: () => ++count >= maxSolutions,
+  })
+  return { count, capped: outcome?.stopped ?? false, nodes: outcome?.nodes ?? 0 }
+}
+
+function inventoryOf(placements: PiecePlacement[]): Inventory {
+  const inventory: Inventory = {}
+  for (const p of placements) inventory[p.type] = (inventory[p.type] ?? 0) + 1
+  return inventory
+}
+
+function scoreOf(placements: PiecePlacement[]): number {
+  return placements.reduce((total, p) => total + VALUES[p.type], 0)
+}
+
+type LineClass = {
+  /** Indexes into the optimiser's types: pieces riding both ways along both of the class's axes. */
+  types: number[]
+  union: Bitset
+  segments: [Int32Array, Int32Array]
+  seen: [Uint32Array, Uint32Array]
+}
+
+// Labels each maximal line of valid cells along `step`; a rider moving that way sees the whole
+// line. With holes, lines run on across blocked squares.
+function lineSegments(board: Board, [dr, dc]: Vector, rules: AttackRules): Int32Array {
+  const { width, height } = board
+  const ids = new Int32Array(width * height).fill(-1)
+  let next = 0
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!isValidSquare(board, row, col) || ids[row * width + col] >= 0) continue
+      // Start from the line's first cell, so squares beyond a hole get the same label.
+      let r = row
+      let c = col
+      while (lineContinues(board, r - dr, c - dc, rules)) {
+        r -= dr
+        c -= dc
+      }
+      for (; lineContinues(board, r, c, rules); r += dr, c += dc) ids[r * width + c] = next
+      next++
+    }
+  }
+  return ids
+}
+
+const hasStep = (steps: readonly Vector[], [dr, dc]: Vector) => steps.some(([r, c]) => r === dr && c === dc)
+
+/**
+ * Branch and bound over any subset of `inventory`: squares are tried in order, and a branch is
+ * dropped once even filling every square it could still use with its best remaining pieces
+ * can't beat the best score so far. Returns null when `preplaced` is itself illegal.
+ */
+function maximizeScore(
+  board: Board,
+  inventory: Inventory,
+  preplaced: PiecePlacement[],
+  maxNodes: number,
+  rules: AttackRules,
+): ScoreOptimum | null {
+  const used = inventoryOf(preplaced)
+
+  const { squares, words, valid, masks, attackers } = attackTables(board, rules)
+  const width = board.width
+  // Zero-value pieces can't raise the score, so the optimiser leaves them in the box.
+  const types = SOLVE_ORDER.filter(
+    (type) => VALUES[type] > 0 && (inventory[type] ?? 0) - (used[type] ?? 0) > 0,
+  )
+  const left = types.map((type) => (inventory[type] ?? 0) - (used[type] ?? 0))
+  const stride = Math.max(1, types.length) * words
+  const avail: Bitset[] = Array.from({ length: squares + 1 }, () => new Uint32Array(stride))
+  types.forEach((_, ti) => avail[0].set(valid, ti * words))
+  const occupy = (set: Bitset, sq: number, type: PieceType) => {
+    const at = sq * words
+    types.forEach((t, ti) => {
+      const base = ti * words
+      for (let w = 0; w < words; w++) set[base + w] &= ~(masks[type][at + w] | attackers[t][at + w])
+      set[base + (sq >>> 5)] &= ~(1 << (sq & 31))
+    })
+  }
+  for (const p of preplaced) occupy(avail[0], p.row * width + p.col, p.type)
+
+  // A piece that rides both ways along a line attacks whatever else shares its segment, so each
+  // segment holds at most one such piece: a class can't outnumber its row (or column) segments.
+  const lineClasses: LineClass[] = (
+    [
+      [[0, 1], [1, 0]],
+      [[1, 1], [1, -1]],
+    ] as [Vector, Vector][]
+  ).map((axes) => {
+    const members = types.flatMap((type, ti) => {
+      const { riders } = attackPattern(type, rules)
+      const both = axes.every(([dr, dc]) => hasStep(riders, [dr, dc]) && hasStep(riders, [-dr, -dc]))
+      return both ? [ti] : []
+    })
+    return {
+      types: members,
+      union: new Uint32Array(words),
+      segments: [lineSegments(board, axes[0], rules), lineSegments(board, axes[1], rules)],
+      seen: [new Uint32Array(squares), new Uint32Array(squares)],
+    }
+  })
+  let stamp = 0
+  const segmentCap = (set: Bitset, from: number, line: LineClass): number => {
+    line.union.fill(0)
+    for (const ti of line.types) {
+      for (let w = 0; w < words; w++) line.union[w] |= set[ti * words + w]
+    }
+    stamp++
+    const counts = [0, 0]
+    for (let sq = from; sq < squares; sq++) {
+      if (!hasBit(line.union, sq)) continue
+      for (let axis = 0; axis < 2; axis++) {
+        const id = line.segments[axis][sq]
+        if (line.seen[axis][id] !== stamp) {
+          line.seen[axis][id] = stamp
+          counts[axis]++
+        }
+      }
+    }
+    return Math.min(counts[0], counts[1])
+  }
+
+  const union = new Uint32Array(words)
+  // Greedy by value is exact when the caps nest (all squares, then one line class), so each
+  // class gives a valid bound on its own and the tighter of the two is used.
+  const bound = (set: Bitset, from: number): number => {
+    union.fill(0)
+    types.forEach((_, ti) => {
+      for (let w = 0; w < words; w++) union[w] |= set[ti * words + w]
+    })
+    const squaresLeft = countFrom(union, 0, words, from)
+    let tightest = Number.POSITIVE_INFINITY
+    for (const line of lineClasses) {
+      let room = squaresLeft
+      let lineRoom = line.types.length > 0 ? segmentCap(set, from, line) : 0
+      let total = 0
+      for (let ti = 0; ti < types.length && room > 0; ti++) {
+        const inLine = line.types.includes(ti)
+        const take = Math.min(
+          left[ti],
+          countFrom(set, ti * words, words, from),
+          room,
+          inLine ? lineRoom : Number.POSITIVE_INFINITY,
+        )
+        total += take * VALUES[types[ti]]
+        room -= take
+        if (inLine) lineRoom -= take
+      }
+      tightest = Math.min(tightest, total)
+    }
+    return tightest
+  }
+
+  const chosen: PiecePlacement[] = []
+  let best = { score: 0, placements: [] as PiecePlacement[] }
+  let nodes = 0
+  let proven = true
+  const search = (depth: number, from: number, score: number) => {
+    nodes++
+    if (score > best.score) best = { score, placements: [...chosen] }
+    if (nodes > maxNodes) {
+      proven = false
+      return
+    }
+    const current = avail[depth]
+    if (score + bound(current, from) <= best.score) return
+    const next = avail[depth + 1]
+    for (let sq = from; sq < squares && proven; sq++) {
+      for (let ti = 0; ti < types.length && proven; ti++) {
+        if (left[ti] === 0 || !hasBit(current, sq, ti * words)) continue
+        const type = types[ti]
+        next.set(current)
+        occupy(next, sq, type)
+        left[ti]--
+        chosen.push({ row: Math.floor(sq / width), col: sq % width, type })
+        search(depth + 1, sq + 1, score + VALUES[type])
+        chosen.pop()
+        left[ti]++
+      }
+      if (score + bound(current, sq + 1) <= best.score) return
+    }
+  }
+  search(0, 0, 0)
+
+  return {
+    score: scoreOf(preplaced) + best.score,
+    placements: [...preplaced, ...best.placements],
+    proven,
+    nodes,
+  }
+}
+
+const DIFFICULTY_BANDS: { label: DifficultyLabel; below: number }[] = [
+  { label: 'Easy', below: 20 },
+  { label: 'Medium', below: 40 },
+  { label: 'Hard', below: 60 },
+  { label: 'Expert', below: Number.POSITIVE_INFINITY },
+]
+
+function difficultyLabel(score: number): DifficultyLabel {
+  return (DIFFICULTY_BANDS.find((b) => score < b.below) ?? DIFFICULTY_BANDS[DIFFICULTY_BANDS.length - 1]).label
+}
+
+function rateDifficulty(
+  board: Board,
+  inventory: Inventory,
+  preplaced: PiecePlacement[],
+  rules: AttackRules,
+): DifficultyRating {
+  const first = searchPlacements(board, inventory, preplaced, {
+    rules,
+    useSymmetry: true,
+    onSolution: () => true,
+  })
+  const effort = first?.nodes ?? 0
+  const { count, capped } = countSolutions(
+    board,
+    inventory,
+    SOLUTION_COUNT_LIMIT,
+    COUNT_NODE_LIMIT,
+    preplaced,
+    rules,
+  )
+
+  // Effort alone tops out at Hard; reaching Expert also takes a scarce (near-unique) solution.
+  const scarcity = count === 0 ? 1 : 1 - Math.log10(count) / Math.log10(SOLUTION_COUNT_LIMIT)
+  const search = Math.min(1, Math.log10(1 + effort) / Math.log10(EFFORT_CEILING))
+  const score = Math.round(100 * Math.max(0, Math.min(1, 0.5 * scarcity + 0.5 * search)))
+  return { score, label: difficultyLabel(score), solutions: count, solutionsCapped: capped, effort }
+}
+
+// Node limits rather than time limits keep generation identical on every device.
+const GENERATION_NODE_LIMIT = 200_000
+const GENERATION_SCORE_NODE_LIMIT = 150_000
+const MAX_RATED_CANDIDATES = 8
+
+// Locks come out of a known solution, so the board stays solvable with them in place.
+function pickLocked(solution: PiecePlacement[], count: number, seed: string): PiecePlacement[] {
+  const rng = mulberry32(hashSeed(`${seed}:locked`))
+  const pool = [...solution]
+  const locked: PiecePlacement[] = []
+  while (locked.length < count && pool.length > 0) {
+    locked.push(pool.splice(Math.floor(rng() * pool.length), 1)[0])
+  }
+  return locked
+}
+
+function bandDistance(a: DifficultyLabel, b: DifficultyLabel): number {
+  const index = (label: DifficultyLabel) => DIFFICULTY_BANDS.findIndex((band) => band.label === label)
+  return Math.abs(index(a) - index(b))
+}
+
+/**
+ * Tries seeded board/inventory pairs until one is rated in the target band. Falls back to the
+ * closest rated candidate, then to the first solvable one, then to an unsolved board.
+ */
+export function generateScheduledPuzzle(
+  baseSeed: string,
+  target: GenerationTarget,
+  maxAttempts: number,
+  onProgress?: (attempt: number, maxAttempts: number) => void,
+): GeneratedPuzzle {
+  const rng = mulberry32(hashSeed(`${baseSeed}:generator`))
+  const { min, max } = target.blockRatio
+  const layout: BoardLayout = target.layout ?? { width: 8, height: 8, shape: 'rectangle' }
+  const objective = target.objective ?? 'complete'
+  const rules = target.rules ?? STANDARD_RULES
+  let closest: { puzzle: GeneratedPuzzle; distance: number } | null = null
+  let firstSolvable: GeneratedPuzzle | null = null
+  let rated = 0
+  for (let attempt = 0; attempt < maxAttempts && rated < MAX_RATED_CANDIDATES; attempt++) {
+    onProgress?.(attempt, maxAttempts)
+    // Draw both values up front so later attempts don't depend on earlier outcomes.
+    const inventory = target.inventories[Math.floor(rng() * target.inventories.length)]
+    const blockRatio = min + rng() * (max - min)
+    const attemptSeed = attempt === 0 ? baseSeed : `${baseSeed}-${attempt}`
+    const board = generateBoard(attemptSeed, layout, blockRatio)
+
+    let solution: PiecePlacement[] | undefined
+    let par: ScorePar | null = null
+    if (objective === 'maxScore') {
+      const optimum = maximizeScore(board, inventory, [], GENERATION_SCORE_NODE_LIMIT, rules)
+      if (!optimum || optimum.placements.length === 0) continue
+      solution = optimum.placements
+      par = { score: optimum.score, proven: optimum.proven }
+    } else {
+      const found: PiecePlacement[][] = []
+      searchPlacements(board, inventory, [], {
+        rules,
+        useSymmetry: true,
+        maxNodes: GENERATION_NODE_LIMIT,
+        onSolution: (placements) => found.push(placements) > 0,
+      })
+      solution = found[0]
+    }
+    if (!solution) continue
+    // A max-score puzzle is rated on the pieces its par uses, as if they were the whole inventory.
+    const ratedInventory = objective === 'maxScore' ? inventoryOf(solution) : inventory
+    const locked = pickLocked(solution, target.lockedPieces ?? 0, attemptSeed)
+    const base = { board, solution, inventory, blockRatio, locked, objective, par, rules }
+    firstSolvable ??= { ...base, rating: null }
+    if (target.maxSolutions !== undefined) {
+      const { count, capped } = countSolutions(
+        board,
+        ratedInventory,
+        target.maxSolutions + 1,
+        COUNT_NODE_LIMIT,
+        locked,
+        rules,
+      )
+      if (count > target.maxSolutions || capped) continue
+    }
+
+    const rating = rateDifficulty(board, ratedInventory, locked, rules)
+    rated++
+    const puzzle = { ...base, rating }
+    const distance = bandDistance(rating.label, target.difficulty)
+    if (distance === 0) return puzzle
+    if (!closest || distance < closest.distance) closest = { puzzle, distance }
+  }
+  if (closest) return closest.puzzle
+  if (firstSolvable) {
+    const { board, inventory, locked, solution } = firstSolvable
+    const ratedInventory = objective === 'maxScore' && solution ? inventoryOf(solution) : inventory
+    return { ...firstSolvable, rating: rateDifficulty(board, ratedInventory, locked, rules) }
+  }
+  const blockRatio = (min + max) / 2
+  return {
+    board: generateBoard(baseSeed, layout, blockRatio),
+    solution: null,
+    inventory: target.inventories[0],
+    blockRatio,
+    locked: [],
+    rating: null,
+    objective,
+    par: null,
+    rules,
+  }
+}
+
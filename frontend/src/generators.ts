@@ -0,0 +1,67 @@
+import type { GeneratedPuzzle, GenerationTarget } from './engine'
+import { generateLaunchPuzzle } from './frozen/generatorV1'
+import { generateScheduledPuzzle } from './frozen/generatorV2'
+import { DAILY_MAX_ATTEMPTS, DEFAULT_SCHEDULE, LAUNCH_SCHEDULE, targetForSeed } from './schedule'
+import type { WeeklySchedule } from './schedule'
+
+/**
+ * One frozen way of turning a daily seed into a puzzle. Archives, shared results and the
+ * leaderboard all regenerate past days, so once a version has been live its output must never
+ * change. Each version calls its own copy of the generation code in `src/frozen`, never the live
+ * engine. To change generation, copy the newest frozen module, change the copy, and add a new
+ * version using it whose `since` is still in the future.
+ * `npm run golden:check` fails when a recorded day no longer generates the same puzzle.
+ */
+export type GeneratorVersion = {
+  version: number
+  /** First daily seed (YYYYMMDD) generated by this version. */
+  since: string
+  schedule: WeeklySchedule
+  /** A day's own `maxAttempts` takes precedence. */
+  maxAttempts: number
+  generate: (
+    seed: string,
+    target: GenerationTarget,
+    maxAttempts: number,
+    onProgress?: (attempt: number, maxAttempts: number) => void,
+  ) => GeneratedPuzzle
+}
+
+/** Oldest first; days before the first `since` use the first version. */
+export const GENERATOR_VERSIONS: readonly GeneratorVersion[] = [
+  {
+    version: 1,
+    since: '20260101',
+    schedule: LAUNCH_SCHEDULE,
+    maxAttempts: DAILY_MAX_ATTEMPTS,
+    generate: (seed, _target, maxAttempts, onProgress) => generateLaunchPuzzle(seed, maxAttempts, onProgress),
+  },
+  // The weekly schedule: shaped boards, locked pieces, max-score, fairy and near-unique days, rule variants.
+  {
+    version: 2,
+    since: '20261102',
+    schedule: DEFAULT_SCHEDULE,
+    maxAttempts: DAILY_MAX_ATTEMPTS,
+    generate: generateScheduledPuzzle,
+  },
+]
+
+export function generatorForSeed(seed: string): GeneratorVersion {
+  // Seeds are fixed-width digits, so string order is date order.
+  const live = GENERATOR_VERSIONS.filter((v) => v.since <= seed)
+  return live.at(-1) ?? GENERATOR_VERSIONS[0]
+}
+
+export function dailyTarget(seed: string): GenerationTarget {
+  return targetForSeed(seed, generatorForSeed(seed).schedule)
+}
+
+/** The daily puzzle for `seed`, as whichever version was live that day generated it. */
+export function generateDaily(
+  seed: string,
+  onProgress?: (attempt: number, maxAttempts: number) => void,
+): GeneratedPuzzle {
+  const generator = generatorForSeed(seed)
+  const target = targetForSeed(seed, generator.schedule)
+  return generator.generate(seed, target, target.maxAttempts ?? generator.maxAttempts, onProgress)
+}
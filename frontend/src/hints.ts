@@ -0,0 +1,75 @@
+import type { Board, HintAnalysis, PiecePlacement } from './engine'
+import { pieceLabel } from './pieces'
+import { squareName } from './squares'
+
+export const HINTS_PER_DAY = 3
+export const HINT_PENALTY_MS = 30_000
+/** How long the engine may search for a hint before giving up without charging one. */
+export const HINT_BUDGET_MS = 4_000
+/** 1: something is wrong, 2: which piece, 3: a concrete square and piece type. */
+export const MAX_HINT_TIER = 3
+
+export type HintView = {
+  message: string
+  wrong: string | null
+  suggest: string | null
+}
+
+/** Conflicts, solved boards and dead ends get a message without spending the day's budget. */
+export function isFreeHint(analysis: HintAnalysis): boolean {
+  return analysis.kind === 'conflict' || analysis.kind === 'solved' || analysis.kind === 'stuck'
+}
+
+function describePiece(board: Board, p: PiecePlacement): string {
+  return `${pieceLabel[p.type]} on ${squareName(board, p.row, p.col)}`
+}
+
+const keyOf = (p: PiecePlacement) => `${p.row},${p.col}`
+
+export function describeHint(board: Board, analysis: HintAnalysis, tier: number): HintView {
+  switch (analysis.kind) {
+    case 'conflict':
+      return {
+        message: 'Some of your pieces attack each other. Fix the red squares first.',
+        wrong: null,
+        suggest: null,
+      }
+    case 'solved':
+      return { message: 'Every piece is placed correctly.', wrong: null, suggest: null }
+    case 'stuck':
+      return {
+        message: 'More than one piece needs to move. Try clearing a few and rebuilding.',
+        wrong: null,
+        suggest: null,
+      }
+    case 'wrong': {
+      if (tier <= 1) return { message: 'One of your pieces is in the way.', wrong: null, suggest: null }
+      const wrong = keyOf(analysis.piece)
+      const base = `The ${describePiece(board, analysis.piece)} is in the way: removing it opens up a solution.`
+      if (tier === 2 || !analysis.suggestion) return { message: base, wrong, suggest: null }
+      return {
+        message: `${base} Try a ${describePiece(board, analysis.suggestion)} instead.`,
+        wrong,
+        suggest: keyOf(analysis.suggestion),
+      }
+    }
+    case 'onTrack': {
+      const { suggestion } = analysis
+      if (tier <= 1) {
+        return { message: 'Everything so far fits a solution.', wrong: null, suggest: null }
+      }
+      if (tier === 2) {
+        return {
+          message: `Everything so far fits. Your ${pieceLabel[suggestion.type]} is a good next piece.`,
+          wrong: null,
+          suggest: null,
+        }
+      }
+      return {
+        message: `Try a ${describePiece(board, suggestion)}.`,
+        wrong: null,
+        suggest: keyOf(suggestion),
+      }
+    }
+  }
+}
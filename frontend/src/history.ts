@@ -0,0 +1,113 @@
+import type { PiecePlacement } from './engine'
+import { isPieceType } from './pieces'
+import type { Coord } from './squares'
+
+/** One change to the player's own pieces, with what it takes to reverse it. */
+export type Command =
+  | { kind: 'place'; piece: PiecePlacement }
+  | { kind: 'remove'; piece: PiecePlacement; index: number }
+  | { kind: 'move'; index: number; from: Coord; to: Coord }
+  | { kind: 'clear'; pieces: PiecePlacement[] }
+
+export type UndoHistory = {
+  /** Oldest first; Undo reverses the last one. */
+  done: Command[]
+  /** Most recently undone last. A new command clears it. */
+  undone: Command[]
+}
+
+export const EMPTY_HISTORY: UndoHistory = { done: [], undone: [] }
+
+const at = (p: Coord, { row, col }: Coord) => p.row === row && p.col === col
+
+const moveTo = (placements: PiecePlacement[], index: number, { row, col }: Coord) =>
+  placements.map((p, i) => (i === index ? { ...p, row, col } : p))
+
+export function applyCommand(placements: PiecePlacement[], command: Command): PiecePlacement[] {
+  switch (command.kind) {
+    case 'place':
+      return [...placements, command.piece]
+    case 'remove':
+      return placements.filter((_, i) => i !== command.index)
+    case 'move':
+      return moveTo(placements, command.index, command.to)
+    case 'clear':
+      return []
+  }
+}
+
+// Commands are only ever reverted from the position they produced, so indexes still line up.
+function revertCommand(placements: PiecePlacement[], command: Command): PiecePlacement[] {
+  switch (command.kind) {
+    case 'place':
+      return placements.filter((p) => !at(p, command.piece))
+    case 'remove':
+      return [...placements.slice(0, command.index), command.piece, ...placements.slice(command.index)]
+    case 'move':
+      return moveTo(placements, command.index, command.from)
+    case 'clear':
+      return command.pieces
+  }
+}
+
+export function recordCommand(history: UndoHistory, command: Command): UndoHistory {
+  return { done: [...history.done, command], undone: [] }
+}
+
+export type HistoryStep = {
+  history: UndoHistory
+  placements: PiecePlacement[]
+}
+
+export function undo(history: UndoHistory, placements: PiecePlacement[]): HistoryStep | null {
+  const command = history.done.at(-1)
+  if (!command) return null
+  return {
+    history: { done: history.done.slice(0, -1), undone: [...history.undone, command] },
+    placements: revertCommand(placements, command),
+  }
+}
+
+export function redo(history: UndoHistory, placements: PiecePlacement[]): HistoryStep | null {
+  const command = history.undone.at(-1)
+  if (!command) return null
+  return {
+    history: { done: [...history.done, command], undone: history.undone.slice(0, -1) },
+    placements: applyCommand(placements, command),
+  }
+}
+
+const isIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0
+
+function isCoord(value: unknown): value is Coord {
+  if (!value || typeof value !== 'object') return false
+  const { row, col } = value as Record<string, unknown>
+  return isIndex(row) && isIndex(col)
+}
+
+function isPiece(value: unknown): value is PiecePlacement {
+  return isCoord(value) && isPieceType((value as Record<string, unknown>).type)
+}
+
+function isCommand(value: unknown): value is Command {
+  if (!value || typeof value !== 'object') return false
+  const c = value as Record<string, unknown>
+  switch (c.kind) {
+    case 'place':
+      return isPiece(c.piece)
+    case 'remove':
+      return isPiece(c.piece) && isIndex(c.index)
+    case 'move':
+      return isIndex(c.index) && isCoord(c.from) && isCoord(c.to)
+    case 'clear':
+      return Array.isArray(c.pieces) && c.pieces.every(isPiece)
+    default:
+      return false
+  }
+}
+
+export function isUndoHistory(value: unknown): value is UndoHistory {
+  if (!value || typeof value !== 'object') return false
+  const { done, undone } = value as Record<string, unknown>
+  return Array.isArray(done) && done.every(isCommand) && Array.isArray(undone) && undone.every(isCommand)
+}
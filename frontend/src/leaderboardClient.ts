@@ -0,0 +1,61 @@
+import type { Leaderboard, LeaderboardSubmission, SubmitResponse } from './leaderboardProtocol'
+import { storage } from './persistence'
+
+const API_BASE = '/api'
+const NAME_KEY = 'daily-los:player-name'
+
+/** `offline`: no server answered (static hosting, or it isn't running). `rejected`: it refused. */
+export type LeaderboardErrorReason = 'offline' | 'rejected'
+
+export class LeaderboardError extends Error {
+  readonly reason: LeaderboardErrorReason
+
+  constructor(reason: LeaderboardErrorReason, message: string) {
+    super(message)
+    this.name = 'LeaderboardError'
+    this.reason = reason
+  }
+}
+
+async function call<T>(path: string, init?: RequestInit): Promise<T> {
+  let res: Response
+  try {
+    res = await fetch(`${API_BASE}${path}`, init)
+  } catch {
+    throw new LeaderboardError('offline', 'The leaderboard server could not be reached')
+  }
+  // A static host answers unknown paths with its HTML page, so anything but JSON means no server.
+  if (!res.headers.get('Content-Type')?.includes('application/json')) {
+    throw new LeaderboardError('offline', 'The leaderboard server is not available')
+  }
+  const body = (await res.json()) as T | { error?: string }
+  if (!res.ok) {
+    const message = (body as { error?: string }).error ?? `Request failed (${res.status})`
+    throw new LeaderboardError(res.status >= 500 ? 'offline' : 'rejected', message)
+  }
+  return body as T
+}
+
+export function fetchLeaderboard(seed: string, signal?: AbortSignal): Promise<Leaderboard> {
+  return call(`/leaderboard/${seed}`, { signal })
+}
+
+export function submitResult(submission: LeaderboardSubmission): Promise<SubmitResponse> {
+  return call('/results', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  })
+}
+
+export function loadPlayerName(): string {
+  return storage()?.getItem(NAME_KEY) ?? ''
+}
+
+export function savePlayerName(name: string): void {
+  try {
+    storage()?.setItem(NAME_KEY, name)
+  } catch {
+    // Quota or privacy-mode failures only cost the prefilled name next time.
+  }
+}
@@ -0,0 +1,115 @@
+import { isArchiveSeed } from './archive'
+import { isLegalPlacement, isSolved, isValidSquare, makeDailySeed, reachesPar, scoreOf } from './engine'
+import type { GeneratedPuzzle, PiecePlacement, PuzzleObjective } from './engine'
+import { HINT_PENALTY_MS, HINTS_PER_DAY } from './hints'
+import { isPieceType } from './pieces'
+
+export const MAX_NAME_LENGTH = 20
+
+/** What a player sends once solved. `placements` are their own pieces; locked ones come from the seed. */
+export type LeaderboardSubmission = {
+  seed: string
+  name: string
+  placements: PiecePlacement[]
+  /** Including hint penalties, as shown to the player. */
+  timeMs: number
+  hints: number
+  undos: number
+}
+
+export type LeaderboardEntry = {
+  name: string
+  timeMs: number
+  hints: number
+  undos: number
+  /** Only on max-score days. */
+  score: number | null
+  submittedAt: number
+}
+
+export type Leaderboard = {
+  seed: string
+  objective: PuzzleObjective
+  /** Best first. */
+  entries: LeaderboardEntry[]
+}
+
+export type SubmitResponse = {
+  /** 1-based position of this submission's entry. */
+  rank: number
+  leaderboard: Leaderboard
+}
+
+export type ErrorResponse = { error: string }
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+function isPlacement(value: unknown): value is PiecePlacement {
+  if (!value || typeof value !== 'object') return false
+  const p = value as Record<string, unknown>
+  return isCount(p.row) && isCount(p.col) && isPieceType(p.type)
+}
+
+/** Shape checks only; whether the seed exists and the placements solve it is `verifySubmission`'s job. */
+export function parseSubmission(value: unknown): LeaderboardSubmission | null {
+  if (!value || typeof value !== 'object') return null
+  const s = value as Record<string, unknown>
+  if (
+    typeof s.seed !== 'string' ||
+    typeof s.name !== 'string' ||
+    !Array.isArray(s.placements) ||
+    !s.placements.every(isPlacement) ||
+    typeof s.timeMs !== 'number' ||
+    !isCount(s.hints) ||
+    !isCount(s.undos)
+  ) {
+    return null
+  }
+  const { seed, placements, timeMs, hints, undos } = s
+  return { seed, name: s.name.trim(), placements, timeMs, hints, undos }
+}
+
+/** Today's daily or any archive day; the server rejects anything else before generating a board. */
+export function isRankedSeed(seed: string, today = new Date()): boolean {
+  return seed === makeDailySeed(today) || isArchiveSeed(seed, today)
+}
+
+/** Returns why `submission` doesn't solve `puzzle`, or null when it does. */
+export function verifySubmission(puzzle: GeneratedPuzzle, submission: LeaderboardSubmission): string | null {
+  const { board, inventory, locked, par, rules } = puzzle
+  const { name, placements, timeMs, hints } = submission
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    return `Names must be 1 to ${MAX_NAME_LENGTH} characters`
+  }
+  if (hints > HINTS_PER_DAY) return 'More hints than the game allows'
+  if (!Number.isFinite(timeMs) || timeMs < hints * HINT_PENALTY_MS) return 'Time is not plausible'
+  if (placements.some((p) => !isValidSquare(board, p.row, p.col))) return 'A piece is off the valid squares'
+  if (placements.some((p) => locked.some((l) => l.row === p.row && l.col === p.col))) {
+    return 'A piece sits on a locked square'
+  }
+  if (new Set(placements.map((p) => `${p.row},${p.col}`)).size !== placements.length) {
+    return 'Two pieces share a square'
+  }
+  const all = [...locked, ...placements]
+  if (!isLegalPlacement(board, all, rules)) return 'Some pieces attack each other'
+  const solved = par
+    ? reachesPar(board, inventory, all, par.score, rules)
+    : isSolved(board, inventory, all, rules)
+  return solved ? null : 'The placements do not solve this puzzle'
+}
+
+export function entryFor(
+  puzzle: GeneratedPuzzle,
+  submission: LeaderboardSubmission,
+  now: number,
+): LeaderboardEntry {
+  const { name, placements, timeMs, hints, undos } = submission
+  const score = puzzle.par ? scoreOf([...puzzle.locked, ...placements]) : null
+  return { name, timeMs, hints, undos, score, submittedAt: now }
+}
+
+/** Higher scores first on max-score days, then faster times; ties go to whoever submitted first. */
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return (b.score ?? 0) - (a.score ?? 0) || a.timeMs - b.timeMs || a.submittedAt - b.submittedAt
+}
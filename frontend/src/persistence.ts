@@ -0,0 +1,169 @@
+import type { PlayMode } from './archive'
+import type { PiecePlacement } from './engine'
+import { EMPTY_HISTORY, isUndoHistory } from './history'
+import type { UndoHistory } from './history'
+import { isPieceType } from './pieces'
+import { isReplayStep, replaceLegacyUndos } from './replay'
+import type { ReplayStep } from './replay'
+
+// Archive attempts live under their own prefix so daily pruning never touches them.
+const STORAGE_PREFIX: Record<PlayMode, string> = {
+  daily: 'daily-los:attempt:',
+  archive: 'daily-los:archive:',
+  custom: 'daily-los:custom:',
+}
+const CURRENT_VERSION = 5
+
+export type SavedAttempt = {
+  version: typeof CURRENT_VERSION
+  seed: string
+  placements: PiecePlacement[]
+  elapsedMs: number
+  solved: boolean
+  modalDismissed: boolean
+  undoCount: number
+  redoCount: number
+  hintsUsed: number
+  replay: ReplayStep[]
+  /** The player's pieces before the first replay step. */
+  replayStart: PiecePlacement[]
+  /** Undo and redo stacks for `placements`. */
+  history: UndoHistory
+  savedAt: number
+}
+
+type StoredRecord = { version: number; seed: string } & Record<string, unknown>
+
+// Each entry upgrades a record from `version` to `version + 1`. Add one whenever SavedAttempt changes shape.
+const migrations: Record<number, (record: StoredRecord) => StoredRecord> = {
+  1: (record) => ({ ...record, version: 2, undoCount: 0, hintsUsed: 0 }),
+  // Version 2 predates replays; earlier actions simply weren't recorded.
+  2: (record) => ({ ...record, version: 3, replay: [] }),
+  // Version 3 predates the undo history: Undo just took back the newest piece, and couldn't be redone.
+  3: ({ replay, ...record }) => ({
+    ...record,
+    version: 4,
+    redoCount: 0,
+    history: EMPTY_HISTORY,
+    replay: Array.isArray(replay) && replay.every(isReplayStep) ? replaceLegacyUndos(replay) : [],
+  }),
+  // Version 4 replays always started from an empty board.
+  4: (record) => ({ ...record, version: 5, replayStart: [] }),
+}
+
+export function storage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    // Access can throw in privacy modes or sandboxed iframes.
+    return null
+  }
+}
+
+function attemptKey(seed: string, mode: PlayMode): string {
+  return `${STORAGE_PREFIX[mode]}${seed}`
+}
+
+function isPlacement(value: unknown): value is PiecePlacement {
+  if (!value || typeof value !== 'object') return false
+  const p = value as Record<string, unknown>
+  return (
+    Number.isInteger(p.row) &&
+    Number.isInteger(p.col) &&
+    isPieceType(p.type)
+  )
+}
+
+function countOrZero(value: unknown): number {
+  return Number.isInteger(value) && (value as number) >= 0 ? (value as number) : 0
+}
+
+function migrate(record: StoredRecord): StoredRecord | null {
+  let current = record
+  while (current.version < CURRENT_VERSION) {
+    const step = migrations[current.version]
+    if (!step) return null
+    current = step(current)
+  }
+  return current.version === CURRENT_VERSION ? current : null
+}
+
+function toAttempt(record: StoredRecord): SavedAttempt | null {
+  const { placements, elapsedMs, solved, modalDismissed, hintsUsed, replay, replayStart, history, savedAt } = record
+  if (!Array.isArray(placements) || !placements.every(isPlacement)) return null
+  if (typeof elapsedMs !== 'number' || !Number.isFinite(elapsedMs) || elapsedMs < 0) return null
+  return {
+    version: CURRENT_VERSION,
+    seed: record.seed,
+    placements,
+    elapsedMs,
+    solved: solved === true,
+    modalDismissed: modalDismissed === true,
+    undoCount: countOrZero(record.undoCount),
+    redoCount: countOrZero(record.redoCount),
+    hintsUsed: countOrZero(hintsUsed),
+    // A damaged log only costs the replay, not the attempt; likewise the history.
+    replay: Array.isArray(replay) && replay.every(isReplayStep) ? replay : [],
+    replayStart: Array.isArray(replayStart) && replayStart.every(isPlacement) ? replayStart : [],
+    history: isUndoHistory(history) ? history : EMPTY_HISTORY,
+    savedAt: typeof savedAt === 'number' ? savedAt : 0,
+  }
+}
+
+export function loadAttempt(seed: string, mode: PlayMode): SavedAttempt | null {
+  const store = storage()
+  if (!store) return null
+  const raw = store.getItem(attemptKey(seed, mode))
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    if (!parsed || typeof parsed !== 'object') throw new Error('not an object')
+    const record = parsed as StoredRecord
+    if (typeof record.version !== 'number' || record.seed !== seed) throw new Error('bad header')
+    const migrated = migrate(record)
+    const attempt = migrated ? toAttempt(migrated) : null
+    if (!attempt) throw new Error('unreadable attempt')
+    return attempt
+  } catch {
+    store.removeItem(attemptKey(seed, mode))
+    return null
+  }
+}
+
+export function saveAttempt(
+  attempt: Omit<SavedAttempt, 'version' | 'savedAt'>,
+  mode: PlayMode,
+): void {
+  const store = storage()
+  if (!store) return
+  const record: SavedAttempt = { ...attempt, version: CURRENT_VERSION, savedAt: Date.now() }
+  try {
+    store.setItem(attemptKey(attempt.seed, mode), JSON.stringify(record))
+  } catch {
+    // Quota errors should never break play; the attempt just won't survive a reload.
+  }
+}
+
+function keysWithPrefix(store: Storage, prefix: string): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < store.length; i++) {
+    const key = store.key(i)
+    if (key && key.startsWith(prefix)) keys.push(key)
+  }
+  return keys
+}
+
+/** Drops daily attempts from previous days; archive attempts are kept until solved or replaced. */
+export function pruneStaleAttempts(currentSeed: string): void {
+  const store = storage()
+  if (!store) return
+  keysWithPrefix(store, STORAGE_PREFIX.daily)
+    .filter((key) => key !== attemptKey(currentSeed, 'daily'))
+    .forEach((key) => store.removeItem(key))
+}
+
+export function listAttemptSeeds(mode: PlayMode): string[] {
+  const store = storage()
+  if (!store) return []
+  return keysWithPrefix(store, STORAGE_PREFIX[mode]).map((key) => key.slice(STORAGE_PREFIX[mode].length))
+}
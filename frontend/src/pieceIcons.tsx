@@ -0,0 +1,42 @@
+import { defaultPieces } from 'react-chessboard'
+import type { PieceRenderObject } from 'react-chessboard'
+import { PIECE_DEFINITIONS } from './pieces'
+
+type PieceRenderer = PieceRenderObject[string]
+
+// Fairy pieces reuse a standard glyph with a small badge naming what they add to it.
+function badged(base: PieceRenderer, badge: PieceRenderer | string): PieceRenderer {
+  return (props) => (
+    <svg viewBox="0 0 45 45" width="100%" height="100%" style={props?.svgStyle}>
+      {base({ fill: props?.fill })}
+      <circle cx="35" cy="35" r="9.5" fill="#fde68a" stroke="#000" strokeWidth="1.2" />
+      {typeof badge === 'string' ? (
+        <text
+          x="35"
+          y="39"
+          textAnchor="middle"
+          fontSize="11"
+          fontWeight="700"
+          fontFamily="system-ui, sans-serif"
+        >
+          {badge}
+        </text>
+      ) : (
+        <svg x="26" y="26" width="18" height="18">
+          {badge({ fill: '#ffffff' })}
+        </svg>
+      )}
+    </svg>
+  )
+}
+
+const fairyIcons: Record<string, PieceRenderer> = {
+  [PIECE_DEFINITIONS.amazon.code]: badged(defaultPieces.wQ, defaultPieces.wN),
+  [PIECE_DEFINITIONS.chancellor.code]: badged(defaultPieces.wR, defaultPieces.wN),
+  [PIECE_DEFINITIONS.archbishop.code]: badged(defaultPieces.wB, defaultPieces.wN),
+  [PIECE_DEFINITIONS.nightrider.code]: badged(defaultPieces.wN, '∞'),
+  [PIECE_DEFINITIONS.camel.code]: badged(defaultPieces.wN, '3'),
+}
+
+/** Renderers keyed by each piece's `code`, for react-chessboard and the inventory bar alike. */
+export const pieceIcons: PieceRenderObject = { ...defaultPieces, ...fairyIcons }
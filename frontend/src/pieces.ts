@@ -1,19 +1,85 @@
-import type { PieceType } from './engine'
-
-export const pieceToFen: Record<PieceType, string> = {
-  queen: 'wQ',
-  rook: 'wR',
-  bishop: 'wB',
-  knight: 'wN',
-  pawn: 'wP',
-  king: 'wK',
-}
-
-export const pieceLabel: Record<PieceType, string> = {
-  queen: 'Queen',
-  rook: 'Rook',
-  bishop: 'Bishop',
-  knight: 'Knight',
-  pawn: 'Pawn',
-  king: 'King',
+/** Row and column step. Rows grow downward, so -1 is "up the board". */
+export type Vector = readonly [number, number]
+
+export type PieceDefinition = {
+  label: string
+  /** Material value; the solver also places stronger pieces first. */
+  value: number
+  /** Key into the board's piece renderers (see pieceIcons). */
+  code: string
+  /** One uppercase letter naming the piece in puzzle files (see puzzleFormat). */
+  letter: string
+  /** Repeat their step until the edge or a blocked, void or occupied cell. */
+  riders: readonly Vector[]
+  /** Take their step once, jumping over anything in between. */
+  leapers: readonly Vector[]
+  /** Fairy pieces only appear on themed days. */
+  fairy: boolean
+}
+
+const ORTHOGONAL: Vector[] = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const DIAGONAL: Vector[] = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
+const ALL_DIRECTIONS: Vector[] = [...ORTHOGONAL, ...DIAGONAL]
+const KNIGHT_JUMPS: Vector[] = [[1, 2], [2, 1], [-1, 2], [-2, 1], [1, -2], [2, -1], [-1, -2], [-2, -1]]
+const CAMEL_JUMPS: Vector[] = [[1, 3], [3, 1], [-1, 3], [-3, 1], [1, -3], [3, -1], [-1, -3], [-3, -1]]
+
+function define(
+  label: string,
+  value: number,
+  code: string,
+  letter: string,
+  { riders = [], leapers = [] }: { riders?: readonly Vector[]; leapers?: readonly Vector[] },
+  fairy = false,
+): PieceDefinition {
+  return { label, value, code, letter, riders, leapers, fairy }
+}
+
+export const PIECE_DEFINITIONS = {
+  queen: define('Queen', 9, 'wQ', 'Q', { riders: ALL_DIRECTIONS }),
+  rook: define('Rook', 5, 'wR', 'R', { riders: ORTHOGONAL }),
+  bishop: define('Bishop', 3, 'wB', 'B', { riders: DIAGONAL }),
+  knight: define('Knight', 3, 'wN', 'N', { leapers: KNIGHT_JUMPS }),
+  // Pawns attack "up" the board (toward row -1).
+  pawn: define('Pawn', 1, 'wP', 'P', { leapers: [[-1, -1], [-1, 1]] }),
+  king: define('King', 0, 'wK', 'K', { leapers: ALL_DIRECTIONS }),
+  amazon: define('Amazon', 12, 'wAmazon', 'A', { riders: ALL_DIRECTIONS, leapers: KNIGHT_JUMPS }, true),
+  chancellor: define('Chancellor', 8, 'wChancellor', 'C', { riders: ORTHOGONAL, leapers: KNIGHT_JUMPS }, true),
+  archbishop: define('Archbishop', 7, 'wArchbishop', 'H', { riders: DIAGONAL, leapers: KNIGHT_JUMPS }, true),
+  nightrider: define('Nightrider', 5, 'wNightrider', 'S', { riders: KNIGHT_JUMPS }, true),
+  camel: define('Camel', 2, 'wCamel', 'L', { leapers: CAMEL_JUMPS }, true),
+}
+
+export type PieceType = keyof typeof PIECE_DEFINITIONS
+
+export const PIECE_TYPES = Object.keys(PIECE_DEFINITIONS) as PieceType[]
+
+export function pieceDefinition(type: PieceType): PieceDefinition {
+  return PIECE_DEFINITIONS[type]
+}
+
+export function isPieceType(value: unknown): value is PieceType {
+  return typeof value === 'string' && Object.hasOwn(PIECE_DEFINITIONS, value)
+}
+
+function byType<T>(pick: (definition: PieceDefinition) => T): Record<PieceType, T> {
+  return Object.fromEntries(PIECE_TYPES.map((type) => [type, pick(pieceDefinition(type))])) as Record<
+    PieceType,
+    T
+  >
+}
+
+export const pieceToFen: Record<PieceType, string> = byType((d) => d.code)
+
+export const pieceLabel: Record<PieceType, string> = byType((d) => d.label)
+
+export const pieceValue: Record<PieceType, number> = byType((d) => d.value)
+
+export const pieceLetter: Record<PieceType, string> = byType((d) => d.letter)
+
+export function pieceForCode(code: string): PieceType | null {
+  return PIECE_TYPES.find((type) => pieceToFen[type] === code) ?? null
+}
+
+export function pieceForLetter(letter: string): PieceType | null {
+  return PIECE_TYPES.find((type) => pieceLetter[type] === letter.toUpperCase()) ?? null
 }
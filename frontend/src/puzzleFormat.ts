@@ -0,0 +1,285 @@
+import { isLegalPlacement, MAX_BOARD_SIZE } from './engine'
+import type {
+  Board,
+  BoardShape,
+  CellState,
+  GeneratedPuzzle,
+  Inventory,
+  PiecePlacement,
+  PuzzleObjective,
+} from './engine'
+import { PIECE_TYPES, pieceForLetter, pieceLabel, pieceLetter } from './pieces'
+import { activeVariants, isRuleVariant, RULE_VARIANT_IDS, rulesWith, STANDARD_RULES } from './rules'
+import type { AttackRules } from './rules'
+
+/**
+ * A puzzle (and optionally a position in it) as text, one `key value` field per line:
+ *
+ *   los 1
+ *   size 8x8
+ *   grid 2x5/8/3Q4/8/x7/8/1p6/8
+ *   inventory Q1 R3 B2 N2 P4 K1
+ *   seed 20261019
+ *   variant rectangle
+ *   objective complete
+ *   rules holes
+ *
+ * `grid` lists rows from the top, separated by `/`. A number is that many empty valid squares,
+ * `x` a blocked square and `-` a square outside the board's shape. Piece letters (see
+ * `pieceLetter`) mark occupied squares: uppercase for locked pieces, lowercase for the player's.
+ * `inventory` counts every piece in the set, locked and placed ones included.
+ *
+ * `size`, `grid` and `inventory` are required. `seed` and `variant` are informational;
+ * `objective` is `complete` (the default) or `maxScore`, which also needs `par`. `rules` lists
+ * the attack rule variants in force (see `RULE_VARIANTS`); without it, attacks are standard.
+ * Blank lines and lines starting with `#` are ignored, and `;` may stand in for line breaks.
+ */
+export type PuzzleDocument = {
+  board: Board
+  inventory: Inventory
+  locked: PiecePlacement[]
+  placements: PiecePlacement[]
+  variant: BoardShape | null
+  objective: PuzzleObjective
+  /** Only for `maxScore` puzzles. */
+  par: number | null
+  rules: AttackRules
+}
+
+export class PuzzleFormatError extends Error {
+  /** 1-based line the problem was found on; null when it concerns the puzzle as a whole. */
+  readonly line: number | null
+
+  constructor(message: string, line: number | null = null) {
+    super(line === null ? message : `Line ${line}: ${message}`)
+    this.name = 'PuzzleFormatError'
+    this.line = line
+  }
+}
+
+const HEADER = 'los 1'
+const FIELDS = ['size', 'grid', 'inventory', 'seed', 'variant', 'objective', 'par', 'rules'] as const
+type Field = (typeof FIELDS)[number]
+const VARIANTS: BoardShape[] = ['rectangle', 'cross', 'diamond', 'donut']
+const OBJECTIVES: PuzzleObjective[] = ['complete', 'maxScore']
+const CELL_CHAR: Partial<Record<CellState, string>> = { blocked: 'x', void: '-' }
+
+function serializeGrid(board: Board, locked: PiecePlacement[], placements: PiecePlacement[]): string {
+  const pieceAt = new Map<string, string>()
+  locked.forEach((p) => pieceAt.set(`${p.row},${p.col}`, pieceLetter[p.type]))
+  placements.forEach((p) => pieceAt.set(`${p.row},${p.col}`, pieceLetter[p.type].toLowerCase()))
+  return board.cells
+    .map((rowCells, row) => {
+      let out = ''
+      let empty = 0
+      rowCells.forEach((cell, col) => {
+        const mark = CELL_CHAR[cell] ?? pieceAt.get(`${row},${col}`)
+        if (!mark) {
+          empty++
+          return
+        }
+        if (empty > 0) out += empty
+        empty = 0
+        out += mark
+      })
+      return empty > 0 ? out + empty : out
+    })
+    .join('/')
+}
+
+export function serializePuzzle(doc: PuzzleDocument): string {
+  const { board, inventory, locked, placements, variant, objective, par, rules } = doc
+  const counts = PIECE_TYPES.filter((type) => (inventory[type] ?? 0) > 0).map(
+    (type) => `${pieceLetter[type]}${inventory[type]}`,
+  )
+  const lines = [
+    HEADER,
+    `size ${board.width}x${board.height}`,
+    `grid ${serializeGrid(board, locked, placements)}`,
+    `inventory ${counts.join(' ')}`,
+  ]
+  if (board.seed) lines.push(`seed ${board.seed}`)
+  if (variant) lines.push(`variant ${variant}`)
+  lines.push(`objective ${objective}`)
+  if (objective === 'maxScore' && par !== null) lines.push(`par ${par}`)
+  const variants = activeVariants(rules)
+  if (variants.length > 0) lines.push(`rules ${variants.join(' ')}`)
+  return `${lines.join('\n')}\n`
+}
+
+/** The same text on one line, for `?puzzle=` links. */
+export function compactPuzzle(doc: PuzzleDocument): string {
+  return serializePuzzle(doc).trim().split('\n').join(';')
+}
+
+/** Everything App needs to play an imported puzzle; it has no known solution or rating. */
+export function puzzleFromDocument(doc: PuzzleDocument): GeneratedPuzzle {
+  const { board, inventory, locked, objective, par, rules } = doc
+  const cells = board.cells.flat().filter((cell) => cell !== 'void')
+  return {
+    board,
+    solution: null,
+    inventory,
+    blockRatio: cells.filter((cell) => cell === 'blocked').length / Math.max(1, cells.length),
+    locked,
+    rating: null,
+    objective,
+    par: par === null ? null : { score: par, proven: false },
+    rules,
+  }
+}
+
+function parseSize(value: string, line: number): { width: number; height: number } {
+  const match = /^(\d+)x(\d+)$/.exec(value)
+  const width = Number(match?.[1])
+  const height = Number(match?.[2])
+  if (!match || width < 1 || height < 1 || width > MAX_BOARD_SIZE || height > MAX_BOARD_SIZE) {
+    throw new PuzzleFormatError(`size must be WIDTHxHEIGHT, each 1 to ${MAX_BOARD_SIZE}`, line)
+  }
+  return { width, height }
+}
+
+function parseGrid(
+  value: string,
+  width: number,
+  height: number,
+  line: number,
+): { cells: CellState[][]; locked: PiecePlacement[]; placements: PiecePlacement[] } {
+  const rows = value.split('/')
+  if (rows.length !== height) {
+    throw new PuzzleFormatError(`grid has ${rows.length} rows but size says ${height}`, line)
+  }
+  const locked: PiecePlacement[] = []
+  const placements: PiecePlacement[] = []
+  const cells = rows.map((text, row) => {
+    const rowCells: CellState[] = []
+    for (const token of text.match(/\d+|./g) ?? []) {
+      if (/^\d+$/.test(token)) {
+        // Checked before expanding, so a huge count is an error rather than a huge array.
+        if (Number(token) > width - rowCells.length) {
+          throw new PuzzleFormatError(`grid row ${row + 1} is wider than ${width} squares`, line)
+        }
+        rowCells.push(...Array.from({ length: Number(token) }, (): CellState => 'valid'))
+        continue
+      }
+      if (token === 'x' || token === '-') {
+        rowCells.push(token === 'x' ? 'blocked' : 'void')
+        continue
+      }
+      const type = pieceForLetter(token)
+      if (!type) throw new PuzzleFormatError(`unknown grid character "${token}" in row ${row + 1}`, line)
+      const placement = { row, col: rowCells.length, type }
+      if (token === token.toUpperCase()) locked.push(placement)
+      else placements.push(placement)
+      rowCells.push('valid')
+    }
+    if (rowCells.length !== width) {
+      const message = `grid row ${row + 1} is ${rowCells.length} squares wide, not ${width}`
+      throw new PuzzleFormatError(message, line)
+    }
+    return rowCells
+  })
+  return { cells, locked, placements }
+}
+
+function parseRules(value: string, line: number): AttackRules {
+  const tokens = value.split(/\s+/).filter(Boolean)
+  const unknown = tokens.find((token) => !isRuleVariant(token))
+  if (unknown !== undefined) {
+    throw new PuzzleFormatError(`unknown rule "${unknown}"; expected ${RULE_VARIANT_IDS.join(', ')}`, line)
+  }
+  return rulesWith(tokens.filter(isRuleVariant))
+}
+
+function parseInventory(value: string, line: number): Inventory {
+  const inventory: Inventory = {}
+  for (const token of value.split(/\s+/).filter(Boolean)) {
+    const match = /^([A-Za-z])(\d+)$/.exec(token)
+    const type = match ? pieceForLetter(match[1]) : null
+    if (!match || !type) throw new PuzzleFormatError(`"${token}" is not a piece letter and count`, line)
+    if (inventory[type] !== undefined) {
+      throw new PuzzleFormatError(`${pieceLabel[type]} is listed twice`, line)
+    }
+    const count = Number(match[2])
+    if (count > 0) inventory[type] = count
+  }
+  if (Object.keys(inventory).length === 0) throw new PuzzleFormatError('inventory is empty', line)
+  return inventory
+}
+
+/** Throws a PuzzleFormatError naming the first problem found. */
+export function parsePuzzle(text: string): PuzzleDocument {
+  const fields = new Map<Field, { value: string; line: number }>()
+  let sawHeader = false
+  text.split(/\r?\n|;/).forEach((raw, index) => {
+    const line = index + 1
+    const content = raw.trim()
+    if (!content || content.startsWith('#')) return
+    if (!sawHeader) {
+      if (content !== HEADER) throw new PuzzleFormatError(`expected "${HEADER}" first`, line)
+      sawHeader = true
+      return
+    }
+    const [key, ...rest] = content.split(/\s+/)
+    if (!(FIELDS as readonly string[]).includes(key)) {
+      throw new PuzzleFormatError(`unknown field "${key}"`, line)
+    }
+    if (fields.has(key as Field)) throw new PuzzleFormatError(`${key} is given twice`, line)
+    fields.set(key as Field, { value: rest.join(' '), line })
+  })
+  if (!sawHeader) throw new PuzzleFormatError('the text is empty')
+  const required = (key: Field) => {
+    const field = fields.get(key)
+    if (!field) throw new PuzzleFormatError(`missing ${key}`)
+    return field
+  }
+
+  const size = required('size')
+  const { width, height } = parseSize(size.value, size.line)
+  const grid = required('grid')
+  const { cells, locked, placements } = parseGrid(grid.value, width, height, grid.line)
+  const inventoryField = required('inventory')
+  const inventory = parseInventory(inventoryField.value, inventoryField.line)
+  const board: Board = { width, height, cells, seed: fields.get('seed')?.value ?? '' }
+
+  for (const type of PIECE_TYPES) {
+    const used = [...locked, ...placements].filter((p) => p.type === type).length
+    if (used > (inventory[type] ?? 0)) {
+      throw new PuzzleFormatError(
+        `the grid has ${used} ${pieceLabel[type]} but the inventory only ${inventory[type] ?? 0}`,
+        inventoryField.line,
+      )
+    }
+  }
+  const rulesField = fields.get('rules')
+  const rules = rulesField ? parseRules(rulesField.value, rulesField.line) : STANDARD_RULES
+  if (!isLegalPlacement(board, locked, rules)) {
+    throw new PuzzleFormatError('locked pieces attack each other', grid.line)
+  }
+
+  const variantField = fields.get('variant')
+  if (variantField && !VARIANTS.includes(variantField.value as BoardShape)) {
+    throw new PuzzleFormatError(`variant must be one of ${VARIANTS.join(', ')}`, variantField.line)
+  }
+  const objectiveField = fields.get('objective')
+  if (objectiveField && !OBJECTIVES.includes(objectiveField.value as PuzzleObjective)) {
+    throw new PuzzleFormatError(`objective must be one of ${OBJECTIVES.join(', ')}`, objectiveField.line)
+  }
+  const objective = (objectiveField?.value ?? 'complete') as PuzzleObjective
+  const parField = fields.get('par')
+  if (parField && (objective !== 'maxScore' || !/^\d+$/.test(parField.value))) {
+    throw new PuzzleFormatError('par must be a whole number, and only on maxScore puzzles', parField.line)
+  }
+  if (objective === 'maxScore' && !parField) throw new PuzzleFormatError('maxScore puzzles need a par')
+
+  return {
+    board,
+    inventory,
+    locked,
+    placements,
+    variant: (variantField?.value as BoardShape | undefined) ?? null,
+    objective,
+    par: parField ? Number(parField.value) : null,
+    rules,
+  }
+}
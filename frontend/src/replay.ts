@@ -0,0 +1,177 @@
+import { evaluateConflicts } from './engine'
+import type { Board, PiecePlacement, PieceType } from './engine'
+import { applyCommand, EMPTY_HISTORY, recordCommand, redo, undo } from './history'
+import type { Command, UndoHistory } from './history'
+import { isPieceType, pieceLabel } from './pieces'
+import { STANDARD_RULES } from './rules'
+import type { AttackRules } from './rules'
+import { squareName } from './squares'
+
+/**
+ * One player action, as a plain tuple so a whole attempt stays small in storage. `t` is
+ * milliseconds on the attempt clock; actions before the first placement are at 0.
+ */
+export type ReplayStep =
+  | [t: number, action: 'place', row: number, col: number, type: PieceType]
+  | [t: number, action: 'remove', row: number, col: number]
+  | [t: number, action: 'move', fromRow: number, fromCol: number, toRow: number, toCol: number]
+  | [t: number, action: 'undo']
+  | [t: number, action: 'redo']
+  | [t: number, action: 'clear']
+  | [t: number, action: 'select', type: PieceType]
+
+export type ReplayFrame = {
+  t: number
+  /** Null for the opening frame, before any action. */
+  step: ReplayStep | null
+  /** The player's own pieces; locked ones are the same in every frame. */
+  placements: PiecePlacement[]
+  selected: PieceType | null
+  /** `row,col` keys of pieces in conflict, as `evaluateConflicts` reports them. */
+  conflicts: Set<string>
+}
+
+const isCoord = (value: unknown) => Number.isInteger(value) && (value as number) >= 0
+
+export function isReplayStep(value: unknown): value is ReplayStep {
+  if (!Array.isArray(value) || typeof value[0] !== 'number' || !Number.isFinite(value[0])) return false
+  switch (value[1]) {
+    case 'place':
+      return value.length === 5 && isCoord(value[2]) && isCoord(value[3]) && isPieceType(value[4])
+    case 'remove':
+      return value.length === 4 && isCoord(value[2]) && isCoord(value[3])
+    case 'move':
+      return value.length === 6 && value.slice(2).every(isCoord)
+    case 'undo':
+    case 'redo':
+    case 'clear':
+      return value.length === 2
+    case 'select':
+      return value.length === 3 && isPieceType(value[2])
+    default:
+      return false
+  }
+}
+
+/** The replay step that records `command`. */
+export function commandStep(t: number, command: Command): ReplayStep {
+  switch (command.kind) {
+    case 'place':
+      return [t, 'place', command.piece.row, command.piece.col, command.piece.type]
+    case 'remove':
+      return [t, 'remove', command.piece.row, command.piece.col]
+    case 'move':
+      return [t, 'move', command.from.row, command.from.col, command.to.row, command.to.col]
+    case 'clear':
+      return [t, 'clear']
+  }
+}
+
+// The command App ran for `step`, or null if the step doesn't change the pieces (or no longer applies).
+function commandOf(placements: PiecePlacement[], step: ReplayStep): Command | null {
+  switch (step[1]) {
+    case 'place':
+      return { kind: 'place', piece: { row: step[2], col: step[3], type: step[4] } }
+    case 'remove': {
+      const index = placements.findIndex((p) => p.row === step[2] && p.col === step[3])
+      return index < 0 ? null : { kind: 'remove', piece: placements[index], index }
+    }
+    case 'move': {
+      const index = placements.findIndex((p) => p.row === step[2] && p.col === step[3])
+      if (index < 0) return null
+      return { kind: 'move', index, from: { row: step[2], col: step[3] }, to: { row: step[4], col: step[5] } }
+    }
+    case 'clear':
+      return { kind: 'clear', pieces: placements }
+    default:
+      return null
+  }
+}
+
+// Mirrors how App applies each action, so every frame shows what the player saw.
+function apply(
+  placements: PiecePlacement[],
+  history: UndoHistory,
+  step: ReplayStep,
+): [PiecePlacement[], UndoHistory] {
+  if (step[1] === 'undo' || step[1] === 'redo') {
+    const next = (step[1] === 'undo' ? undo : redo)(history, placements)
+    return next ? [next.placements, next.history] : [placements, history]
+  }
+  const command = commandOf(placements, step)
+  if (!command) return [placements, history]
+  return [applyCommand(placements, command), recordCommand(history, command)]
+}
+
+/**
+ * Before there was an undo history, Undo took back the newest piece whatever the last action was.
+ * Rewrites those steps as the removals they amounted to, so old replays still play back correctly.
+ */
+export function replaceLegacyUndos(steps: ReplayStep[]): ReplayStep[] {
+  let placements: PiecePlacement[] = []
+  return steps.flatMap((step): ReplayStep[] => {
+    const [t, action] = step
+    if (action === 'undo') {
+      const last = placements.at(-1)
+      placements = placements.slice(0, -1)
+      return last ? [[t, 'remove', last.row, last.col]] : []
+    }
+    // Moves used to put the piece last, which only mattered for what Undo took back.
+    const moved = action === 'move' && placements.find((p) => p.row === step[2] && p.col === step[3])
+    placements = moved
+      ? [...placements.filter((p) => p !== moved), { ...moved, row: step[4], col: step[5] }]
+      : apply(placements, EMPTY_HISTORY, step)[0]
+    return [step]
+  })
+}
+
+/** `start` is the player's pieces before the first step; imported puzzles can begin with some. */
+export function buildFrames(
+  board: Board,
+  locked: PiecePlacement[],
+  start: PiecePlacement[],
+  steps: ReplayStep[],
+  rules: AttackRules = STANDARD_RULES,
+): ReplayFrame[] {
+  const conflictsOf = (placements: PiecePlacement[]) =>
+    evaluateConflicts(board, [...locked, ...placements], rules).positions
+  const frames: ReplayFrame[] = [
+    { t: 0, step: null, placements: start, selected: null, conflicts: conflictsOf(start) },
+  ]
+  let history = EMPTY_HISTORY
+  for (const step of steps) {
+    const previous = frames[frames.length - 1]
+    const [placements, nextHistory] = apply(previous.placements, history, step)
+    history = nextHistory
+    frames.push({
+      t: step[0],
+      step,
+      placements,
+      selected: step[1] === 'select' ? step[2] : step[1] === 'place' ? step[4] : previous.selected,
+      conflicts: placements === previous.placements ? previous.conflicts : conflictsOf(placements),
+    })
+  }
+  return frames
+}
+
+export function describeStep(board: Board, step: ReplayStep | null): string {
+  if (!step) return 'Start'
+  switch (step[1]) {
+    case 'place':
+      return `Placed ${pieceLabel[step[4]]} on ${squareName(board, step[2], step[3])}`
+    case 'remove':
+      return `Removed the piece on ${squareName(board, step[2], step[3])}`
+    case 'move': {
+      const from = squareName(board, step[2], step[3])
+      return `Moved the piece on ${from} to ${squareName(board, step[4], step[5])}`
+    }
+    case 'undo':
+      return 'Undo'
+    case 'redo':
+      return 'Redo'
+    case 'clear':
+      return 'Cleared the board'
+    case 'select':
+      return `Selected ${pieceLabel[step[2]]}`
+  }
+}
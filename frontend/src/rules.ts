@@ -0,0 +1,73 @@
+import { pieceDefinition } from './pieces'
+import type { PieceType, Vector } from './pieces'
+
+/** Departures from standard attacks. With every flag off, pieces attack as in chess. */
+export type AttackRules = {
+  /** Lines pass through pieces, so a rider attacks everything along them, not just the nearest. */
+  xray: boolean
+  /** Pawns attack diagonally down the board as well as up. */
+  twoWayPawns: boolean
+  /** Kings attack every square within two steps instead of one. */
+  wideKings: boolean
+  /** Lines pass over blocked squares (nothing can stand on them); void cells still stop lines. */
+  holes: boolean
+}
+
+export type RuleVariant = keyof AttackRules
+
+export const STANDARD_RULES: AttackRules = { xray: false, twoWayPawns: false, wideKings: false, holes: false }
+
+export const RULE_VARIANTS: Record<RuleVariant, { label: string; description: string }> = {
+  xray: {
+    label: 'X-ray',
+    description: 'Pieces don’t block lines: a queen, rook or bishop attacks everything along them.',
+  },
+  twoWayPawns: { label: 'Two-way pawns', description: 'Pawns attack diagonally both up and down the board.' },
+  wideKings: { label: 'Wide kings', description: 'Kings attack every square up to two steps away.' },
+  holes: {
+    label: 'Holes',
+    description: 'Blocked squares are holes: lines pass over them, but no piece can stand there.',
+  },
+}
+
+export const RULE_VARIANT_IDS = Object.keys(RULE_VARIANTS) as RuleVariant[]
+
+export function isRuleVariant(value: string): value is RuleVariant {
+  return Object.hasOwn(RULE_VARIANTS, value)
+}
+
+export function rulesWith(variants: RuleVariant[]): AttackRules {
+  return { ...STANDARD_RULES, ...Object.fromEntries(variants.map((variant) => [variant, true])) }
+}
+
+export function activeVariants(rules: AttackRules): RuleVariant[] {
+  return RULE_VARIANT_IDS.filter((variant) => rules[variant])
+}
+
+export function isStandardRules(rules: AttackRules): boolean {
+  return activeVariants(rules).length === 0
+}
+
+/** Steps as in `PieceDefinition`, adjusted for `rules`. */
+export type AttackPattern = {
+  riders: readonly Vector[]
+  leapers: readonly Vector[]
+}
+
+const PAWN_BACKWARD: Vector[] = [[1, -1], [1, 1]]
+const WIDE_KING: Vector[] = [-2, -1, 0, 1, 2].flatMap((dr) =>
+  [-2, -1, 0, 1, 2].filter((dc) => dr !== 0 || dc !== 0).map((dc): Vector => [dr, dc]),
+)
+const patterns = new Map<string, AttackPattern>()
+
+export function attackPattern(type: PieceType, rules: AttackRules): AttackPattern {
+  const key = `${type}:${rules.twoWayPawns}:${rules.wideKings}`
+  const cached = patterns.get(key)
+  if (cached) return cached
+  const { riders, leapers } = pieceDefinition(type)
+  let pattern: AttackPattern = { riders, leapers }
+  if (type === 'pawn' && rules.twoWayPawns) pattern = { riders, leapers: [...leapers, ...PAWN_BACKWARD] }
+  if (type === 'king' && rules.wideKings) pattern = { riders, leapers: WIDE_KING }
+  patterns.set(key, pattern)
+  return pattern
+}
@@ -0,0 +1,136 @@
+import { seedToDayNumber } from './archive'
+import type { BoardLayout, GenerationTarget, Inventory } from './engine'
+import { rulesWith } from './rules'
+
+/** Indexed like `Date.getUTCDay()`: 0 is Sunday. */
+export type WeeklySchedule = [
+  GenerationTarget,
+  GenerationTarget,
+  GenerationTarget,
+  GenerationTarget,
+  GenerationTarget,
+  GenerationTarget,
+  GenerationTarget,
+]
+
+const CLASSIC: Inventory = { queen: 1, rook: 3, bishop: 2, knight: 2, pawn: 4, king: 1 }
+const LIGHT: Inventory = { queen: 1, rook: 2, bishop: 2, knight: 2, pawn: 4, king: 1 }
+const PAWN_HEAVY: Inventory = { queen: 1, rook: 2, bishop: 2, knight: 2, pawn: 8, king: 1 }
+const CROWDED: Inventory = { queen: 1, rook: 3, bishop: 3, knight: 3, pawn: 5, king: 1 }
+const PACKED: Inventory = { queen: 2, rook: 3, bishop: 3, knight: 3, pawn: 6, king: 1 }
+// Max-score days: more than fits, so the puzzle is choosing what to leave out.
+const SCORE_POOL: Inventory = { queen: 3, rook: 5, bishop: 5, knight: 5, pawn: 10, king: 1 }
+const FAIRY_COMPOUNDS: Inventory = {
+  amazon: 1,
+  chancellor: 2,
+  archbishop: 2,
+  rook: 1,
+  knight: 2,
+  camel: 3,
+  pawn: 6,
+  king: 1,
+}
+const FAIRY_RIDERS: Inventory = {
+  chancellor: 2,
+  archbishop: 2,
+  nightrider: 2,
+  bishop: 2,
+  camel: 4,
+  pawn: 6,
+  king: 1,
+}
+
+const DIAMOND: BoardLayout = { width: 10, height: 10, shape: 'diamond' }
+const TALL: BoardLayout = { width: 6, height: 10, shape: 'rectangle' }
+const LARGE: BoardLayout = { width: 12, height: 12, shape: 'rectangle' }
+
+/** Frozen into generator versions 1 and 2; see `GENERATOR_VERSIONS`. */
+export const DAILY_MAX_ATTEMPTS = 80
+
+// The launch generator ignores its target and never rated boards, so `difficulty` is nominal.
+const LAUNCH_DAY: GenerationTarget = {
+  difficulty: 'Medium',
+  inventories: [CLASSIC],
+  blockRatio: { min: 0.28, max: 0.28 },
+}
+
+/** Generator version 1: the same 8x8 board settings and inventory every day. */
+export const LAUNCH_SCHEDULE: WeeklySchedule = [
+  LAUNCH_DAY,
+  LAUNCH_DAY,
+  LAUNCH_DAY,
+  LAUNCH_DAY,
+  LAUNCH_DAY,
+  LAUNCH_DAY,
+  LAUNCH_DAY,
+]
+
+const HOLES = rulesWith(['holes'])
+const WIDE_KINGS = rulesWith(['wideKings'])
+// Large boards need many pieces to be any challenge; wide kings already make it harder.
+const WIDE_KING_SET: Inventory = { queen: 3, rook: 6, bishop: 4, knight: 5, pawn: 9, king: 2 }
+
+// At most this many solutions, locked pieces included, counts as near-unique.
+const NEAR_UNIQUE_MAX_SOLUTIONS = 3
+// Most boards have thousands of solutions, so finding a near-unique one takes far more tries.
+const NEAR_UNIQUE_MAX_ATTEMPTS = 240
+
+/** Generator version 2's week. */
+export const DEFAULT_SCHEDULE: WeeklySchedule = [
+  // Sunday: near-unique
+  {
+    difficulty: 'Expert',
+    layout: TALL,
+    inventories: [PACKED],
+    blockRatio: { min: 0.3, max: 0.4 },
+    lockedPieces: 4,
+    maxSolutions: NEAR_UNIQUE_MAX_SOLUTIONS,
+    maxAttempts: NEAR_UNIQUE_MAX_ATTEMPTS,
+  },
+  // Monday
+  { difficulty: 'Easy', inventories: [LIGHT, CLASSIC], blockRatio: { min: 0.24, max: 0.32 } },
+  // Tuesday
+  {
+    difficulty: 'Easy',
+    inventories: [CLASSIC, PAWN_HEAVY],
+    blockRatio: { min: 0.22, max: 0.32 },
+    lockedPieces: 2,
+  },
+  // Wednesday: max score
+  {
+    difficulty: 'Medium',
+    layout: DIAMOND,
+    inventories: [SCORE_POOL],
+    blockRatio: { min: 0.2, max: 0.32 },
+    objective: 'maxScore',
+  },
+  // Thursday: holes
+  {
+    difficulty: 'Medium',
+    layout: TALL,
+    inventories: [CLASSIC, CROWDED],
+    blockRatio: { min: 0.2, max: 0.32 },
+    lockedPieces: 3,
+    rules: HOLES,
+  },
+  // Friday: fairy pieces
+  { difficulty: 'Hard', inventories: [FAIRY_COMPOUNDS, FAIRY_RIDERS], blockRatio: { min: 0.22, max: 0.31 } },
+  // Saturday: wide kings
+  {
+    difficulty: 'Hard',
+    layout: LARGE,
+    inventories: [WIDE_KING_SET],
+    blockRatio: { min: 0.2, max: 0.32 },
+    rules: WIDE_KINGS,
+  },
+]
+
+export function weekdayForSeed(seed: string): number | null {
+  const day = seedToDayNumber(seed)
+  // Day 0 (1970-01-01) was a Thursday.
+  return day === null ? null : (day + 4) % 7
+}
+
+export function targetForSeed(seed: string, schedule: WeeklySchedule = DEFAULT_SCHEDULE): GenerationTarget {
+  return schedule[weekdayForSeed(seed) ?? 1]
+}
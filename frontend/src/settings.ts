@@ -0,0 +1,30 @@
+import { storage } from './persistence'
+
+/** Player preferences, kept on this device only. */
+export type Settings = {
+  /** Attack heatmap, safe squares for the selected piece and the hover preview. */
+  overlays: boolean
+}
+
+const SETTINGS_KEY = 'daily-los:settings'
+
+export const DEFAULT_SETTINGS: Settings = { overlays: true }
+
+export function loadSettings(): Settings {
+  try {
+    const saved = JSON.parse(storage()?.getItem(SETTINGS_KEY) ?? 'null') as Partial<Settings> | null
+    return {
+      overlays: typeof saved?.overlays === 'boolean' ? saved.overlays : DEFAULT_SETTINGS.overlays,
+    }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveSettings(settings: Settings): void {
+  try {
+    storage()?.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // Quota or privacy-mode failures only mean the defaults come back next visit.
+  }
+}
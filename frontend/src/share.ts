@@ -0,0 +1,155 @@
+import { customRoute, routeSearch } from './archive'
+import type { PlayMode } from './archive'
+import type { Board, CellState, DifficultyLabel } from './engine'
+import { formatSeedDate, formatTime } from './format'
+import { compactPuzzle } from './puzzleFormat'
+import type { PuzzleDocument } from './puzzleFormat'
+
+export type ShareResult = {
+  seed: string
+  mode: PlayMode
+  board: Board
+  timeMs: number
+  hints: number
+  undos: number
+  difficulty: DifficultyLabel | null
+  /** Only on max-score days. */
+  score: { score: number; par: number } | null
+}
+
+const TITLE = 'Daily Line of Sight'
+const EMOJI_BLOCKED = '⬛'
+const EMOJI_VALID = '⬜'
+// A full-width space keeps shaped boards aligned with the emoji cells.
+const EMOJI_VOID = '\u3000'
+
+const SHARE_CELL: Record<CellState, string> = {
+  valid: EMOJI_VALID,
+  blocked: EMOJI_BLOCKED,
+  void: EMOJI_VOID,
+}
+
+/** Only the blocked layout goes into the grid, so sharing never reveals where pieces were placed. */
+export function buildShareGrid(board: Board): string {
+  return board.cells
+    .map((rowCells) => rowCells.map((cell) => SHARE_CELL[cell]).join(''))
+    .join('\n')
+}
+
+function shareDate(result: ShareResult): string {
+  return result.mode === 'custom' ? 'custom puzzle' : formatSeedDate(result.seed)
+}
+
+function shareHeading(result: ShareResult): string {
+  const suffix = result.mode === 'archive' ? ' (archive)' : ''
+  const difficulty = result.difficulty ? ` · ${result.difficulty}` : ''
+  return `${TITLE} ${shareDate(result)}${suffix}${difficulty}`
+}
+
+export function buildShareText(result: ShareResult): string {
+  const stats = [
+    ...(result.score ? [`🎯 ${result.score.score}/${result.score.par}`] : []),
+    `⏱ ${formatTime(result.timeMs)}`,
+    `💡 ${result.hints}`,
+    `↩️ ${result.undos}`,
+  ].join(' · ')
+  return `${shareHeading(result)}\n${stats}\n${buildShareGrid(result.board)}`
+}
+
+/** Opens `doc` in play mode for whoever follows it. */
+export function puzzleLink(doc: PuzzleDocument): string {
+  const { origin, pathname } = window.location
+  return `${origin}${pathname}${routeSearch(customRoute(compactPuzzle(doc)))}`
+}
+
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    if (navigator.clipboard?.writeText) {
+      await navigator.clipboard.writeText(text)
+      return true
+    }
+  } catch {
+    // Fall through to the textarea fallback (e.g. insecure origins or denied permission).
+  }
+  const area = document.createElement('textarea')
+  area.value = text
+  area.setAttribute('readonly', '')
+  area.style.position = 'fixed'
+  area.style.opacity = '0'
+  document.body.appendChild(area)
+  area.select()
+  let copied = false
+  try {
+    copied = document.execCommand('copy')
+  } catch {
+    copied = false
+  }
+  document.body.removeChild(area)
+  return copied
+}
+
+const CARD_WIDTH = 600
+const CARD_PADDING = 40
+const GRID_SIZE = 360
+
+export function renderShareImage(result: ShareResult): Promise<Blob | null> {
+  const canvas = document.createElement('canvas')
+  const { board } = result
+  const cellSize = Math.floor(GRID_SIZE / Math.max(board.width, board.height))
+  const gridWidth = cellSize * board.width
+  const gridHeight = cellSize * board.height
+  canvas.width = CARD_WIDTH
+  canvas.height = CARD_PADDING * 2 + 120 + gridHeight
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return Promise.resolve(null)
+
+  ctx.fillStyle = '#f8fafc'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  ctx.fillStyle = '#0f172a'
+  ctx.textAlign = 'center'
+  ctx.font = '700 28px Inter, system-ui, sans-serif'
+  ctx.fillText(TITLE, CARD_WIDTH / 2, CARD_PADDING + 24)
+  ctx.fillStyle = '#6b7280'
+  ctx.font = '500 18px Inter, system-ui, sans-serif'
+  ctx.fillText(
+    `${shareDate(result)}${result.mode === 'archive' ? ' · archive' : ''}`,
+    CARD_WIDTH / 2,
+    CARD_PADDING + 52,
+  )
+  ctx.fillStyle = '#0f172a'
+  ctx.font = '700 20px Inter, system-ui, sans-serif'
+  const score = result.score ? `Score ${result.score.score}/${result.score.par}  ·  ` : ''
+  ctx.fillText(
+    `${score}Time ${formatTime(result.timeMs)}  ·  Hints ${result.hints}  ·  Undos ${result.undos}`,
+    CARD_WIDTH / 2,
+    CARD_PADDING + 86,
+  )
+
+  const left = (CARD_WIDTH - gridWidth) / 2
+  const top = CARD_PADDING + 110
+  board.cells.forEach((rowCells, row) =>
+    rowCells.forEach((cell, col) => {
+      if (cell === 'void') return
+      const light = (row + col) % 2 === 0
+      ctx.fillStyle = cell === 'blocked' ? '#000000' : light ? '#f0d9b5' : '#b58863'
+      ctx.fillRect(left + col * cellSize, top + row * cellSize, cellSize, cellSize)
+    }),
+  )
+  ctx.strokeStyle = '#000000'
+  ctx.lineWidth = 3
+  ctx.strokeRect(left, top, gridWidth, gridHeight)
+
+  return new Promise((resolve) => canvas.toBlob((blob) => resolve(blob), 'image/png'))
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,20 @@
+import type { Board } from './engine'
+
+export type Coord = {
+  row: number
+  col: number
+}
+
+/** react-chessboard's square ids: a file letter, then the rank counted from the bottom (which may pass 9). */
+export function squareName(board: Board, row: number, col: number): string {
+  return `${String.fromCharCode(97 + col)}${board.height - row}`
+}
+
+export function parseSquare(board: Board, square: string): Coord | null {
+  const match = /^([a-z])(\d+)$/.exec(square)
+  if (!match) return null
+  const col = match[1].charCodeAt(0) - 97
+  const row = board.height - Number(match[2])
+  if (row < 0 || row >= board.height || col >= board.width) return null
+  return { row, col }
+}
@@ -0,0 +1,158 @@
+import { seedToDayNumber } from './archive'
+import type { PlayMode } from './archive'
+import type { DifficultyLabel } from './engine'
+import { storage } from './persistence'
+
+const RESULTS_KEY = 'daily-los:results'
+const RESULTS_VERSION = 5
+
+export type DailyResult = {
+  seed: string
+  mode: PlayMode
+  timeMs: number
+  undos: number
+  redos: number
+  hints: number
+  /** Hint penalties, already included in `timeMs`. */
+  penaltyMs: number
+  /** The board's rating when it was solved; null if it could not be rated. */
+  difficulty: DifficultyLabel | null
+  solvedAt: number
+}
+
+export type TimeBucket = {
+  label: string
+  maxMs: number
+  count: number
+}
+
+export type StatsSummary = {
+  solved: number
+  archiveSolved: number
+  currentStreak: number
+  maxStreak: number
+  averageMs: number | null
+  bestMs: number | null
+  distribution: TimeBucket[]
+}
+
+const BUCKETS: { label: string; maxMs: number }[] = [
+  { label: '< 1m', maxMs: 60_000 },
+  { label: '1–2m', maxMs: 120_000 },
+  { label: '2–5m', maxMs: 300_000 },
+  { label: '5–10m', maxMs: 600_000 },
+  { label: '10m+', maxMs: Number.POSITIVE_INFINITY },
+]
+
+// Each entry upgrades the stored result list from `version` to `version + 1`.
+const migrations: Record<number, (results: Record<string, unknown>[]) => Record<string, unknown>[]> = {
+  // Version 1 predates the archive, so everything it recorded was a live daily.
+  1: (results) => results.map((r) => ({ ...r, mode: 'daily' })),
+  // Version 2 predates hint penalties.
+  2: (results) => results.map((r) => ({ ...r, penaltyMs: 0 })),
+  // Version 3 predates difficulty ratings.
+  3: (results) => results.map((r) => ({ ...r, difficulty: null })),
+  // Version 4 predates redo.
+  4: (results) => results.map((r) => ({ ...r, redos: 0 })),
+}
+
+function isResult(value: unknown): value is DailyResult {
+  if (!value || typeof value !== 'object') return false
+  const r = value as Record<string, unknown>
+  return (
+    typeof r.seed === 'string' &&
+    (r.mode === 'daily' || r.mode === 'archive') &&
+    typeof r.timeMs === 'number' &&
+    typeof r.undos === 'number' &&
+    typeof r.redos === 'number' &&
+    typeof r.hints === 'number' &&
+    typeof r.penaltyMs === 'number' &&
+    (r.difficulty === null || typeof r.difficulty === 'string') &&
+    typeof r.solvedAt === 'number'
+  )
+}
+
+export function loadResults(): DailyResult[] {
+  const raw = storage()?.getItem(RESULTS_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as { version?: unknown; results?: unknown }
+    if (typeof parsed.version !== 'number' || !Array.isArray(parsed.results)) return []
+    let version = parsed.version
+    let results = parsed.results.filter(
+      (r: unknown): r is Record<string, unknown> => !!r && typeof r === 'object',
+    )
+    while (version < RESULTS_VERSION) {
+      const step = migrations[version]
+      if (!step) return []
+      results = step(results)
+      version++
+    }
+    return version === RESULTS_VERSION ? results.filter(isResult) : []
+  } catch {
+    return []
+  }
+}
+
+function saveResults(results: DailyResult[]): void {
+  try {
+    storage()?.setItem(RESULTS_KEY, JSON.stringify({ version: RESULTS_VERSION, results }))
+  } catch {
+    // Losing history is preferable to interrupting the solve.
+  }
+}
+
+/** Stores the first solve for a seed; later solves of the same day are ignored. */
+export function recordResult(result: DailyResult): DailyResult[] {
+  const results = loadResults()
+  if (results.some((r) => r.seed === result.seed)) return results
+  const next = [...results, result].sort((a, b) => a.seed.localeCompare(b.seed))
+  saveResults(next)
+  return next
+}
+
+/** Streaks and times only use live dailies; archive solves are counted but never extend a streak. */
+export function summarizeStats(allResults: DailyResult[], todaySeed: string): StatsSummary {
+  const results = allResults.filter((r) => r.mode === 'daily')
+  const days = new Set<number>()
+  results.forEach((r) => {
+    const day = seedToDayNumber(r.seed)
+    if (day !== null) days.add(day)
+  })
+  const sortedDays = [...days].sort((a, b) => a - b)
+
+  let maxStreak = 0
+  let run = 0
+  sortedDays.forEach((day, i) => {
+    run = i > 0 && sortedDays[i - 1] === day - 1 ? run + 1 : 1
+    maxStreak = Math.max(maxStreak, run)
+  })
+
+  // A streak stays alive until the end of today, so count back from yesterday when today is unsolved.
+  let currentStreak = 0
+  const today = seedToDayNumber(todaySeed)
+  if (today !== null) {
+    let cursor = days.has(today) ? today : today - 1
+    while (days.has(cursor)) {
+      currentStreak++
+      cursor--
+    }
+  }
+
+  const times = results.map((r) => r.timeMs)
+  const distribution = BUCKETS.map((b) => ({ ...b, count: 0 }))
+  times.forEach((ms) => {
+    const bucket = distribution.find((b) => ms < b.maxMs)
+    if (bucket) bucket.count++
+  })
+
+  return {
+    solved: results.length,
+    archiveSolved: allResults.length - results.length,
+    currentStreak,
+    maxStreak,
+    averageMs: times.length ? times.reduce((sum, ms) => sum + ms, 0) / times.length : null,
+    bestMs: times.length ? Math.min(...times) : null,
+    distribution,
+  }
+}
@@ -1,7 +1,12 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The optional leaderboard server (npm run server); the game carries on without it.
+const api = { '/api': 'http://localhost:8787' }
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: { proxy: api },
+  preview: { proxy: api },
 })